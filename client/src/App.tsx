@@ -1,46 +1,21 @@
 import { Switch, Route } from "wouter";
-import { useState, useEffect } from "react";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { useAuth } from "@/hooks/use-auth";
 import Landing from "@/pages/landing";
 import Home from "@/pages/home";
 import Generate from "@/pages/generate";
 import Settings from "@/pages/settings";
 import History from "@/pages/history";
 import Admin from "@/pages/admin";
+import TenantAdmin from "@/pages/tenant-admin";
+import ResetPassword from "@/pages/reset-password";
 import NotFound from "@/pages/not-found";
 
 function Router() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    const checkAuth = () => {
-      const storedUser = localStorage.getItem("xauti_user");
-      setIsAuthenticated(!!storedUser);
-      setIsLoading(false);
-    };
-
-    // Initial check
-    checkAuth();
-
-    // Listen for storage changes (including when localStorage is cleared)
-    const handleStorageChange = () => {
-      checkAuth();
-    };
-
-    window.addEventListener('storage', handleStorageChange);
-
-    // Also listen for custom events when localStorage is changed in the same tab
-    window.addEventListener('auth-changed', handleStorageChange);
-
-    return () => {
-      window.removeEventListener('storage', handleStorageChange);
-      window.removeEventListener('auth-changed', handleStorageChange);
-    };
-  }, []);
+  const { isAuthenticated, isPlatformAdmin, isTenantOwner, isLoading } = useAuth();
 
   if (isLoading) {
     return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
@@ -55,7 +30,13 @@ function Router() {
       <Route path="/generate" component={Generate} />
       <Route path="/settings" component={Settings} />
       <Route path="/history" component={History} />
-      <Route path="/admin" component={Admin} />
+      <Route path="/admin">
+        {isPlatformAdmin ? <Admin /> : <NotFound />}
+      </Route>
+      <Route path="/tenant-admin">
+        {isTenantOwner ? <TenantAdmin /> : <NotFound />}
+      </Route>
+      <Route path="/reset-password" component={ResetPassword} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+
+interface GenerationJob {
+  id: number;
+  tenantId: number | null;
+  userId: number;
+  type: string;
+  contentRequestId: number;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lockedUntil: string | null;
+  deadline: string;
+  lastError: string | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+const STATUSES = ["queued", "running", "waiting", "completed", "dead"];
+const TYPES = ["content", "script"];
+const ALL = "all";
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "secondary",
+  running: "default",
+  waiting: "secondary",
+  completed: "outline",
+  dead: "destructive",
+};
+
+// Content and script generation jobs for the platform admin
+export function JobQueue({ tenants }: { tenants: { id: number; name: string }[] }) {
+  const [status, setStatus] = useState(ALL);
+  const [type, setType] = useState(ALL);
+
+  const params = new URLSearchParams();
+  if (status !== ALL) params.set("status", status);
+  if (type !== ALL) params.set("type", type);
+
+  const { data, isLoading, refetch } = useQuery<{ counts: Record<string, number>; jobs: GenerationJob[] }>({
+    queryKey: [`/api/admin/jobs?${params.toString()}`],
+    refetchInterval: 10000,
+  });
+
+  const tenantName = (id: number | null) =>
+    id === null ? "Main platform" : tenants.find(tenant => tenant.id === id)?.name || `Tenant ${id}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Generation Jobs</CardTitle>
+        <CardDescription>
+          Content and script jobs retry with backoff; jobs out of attempts or past their deadline are dead-lettered and their credit returned.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {STATUSES.map(value => (
+            <Badge key={value} variant={STATUS_VARIANTS[value]}>
+              {value}: {data?.counts[value] ?? 0}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-[1fr_1fr_auto] items-end">
+          <div>
+            <Label>Status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {STATUSES.map(value => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Type</Label>
+            <Select value={type} onValueChange={setType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {TYPES.map(value => (
+                  <SelectItem key={value} value={value}>{value}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={() => refetch()}>
+            Refresh
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading jobs...</p>
+        ) : !data?.jobs.length ? (
+          <p className="text-sm text-gray-500">No jobs match these filters.</p>
+        ) : (
+          <div className="divide-y border rounded-md">
+            {data.jobs.map(job => (
+              <div key={job.id} className="p-3 text-sm space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-gray-500">#{job.id}</span>
+                  <Badge variant="outline">{job.type}</Badge>
+                  <Badge variant={STATUS_VARIANTS[job.status] || "outline"}>{job.status}</Badge>
+                  <span className="text-gray-600">
+                    Request #{job.contentRequestId} for user #{job.userId} ({tenantName(job.tenantId)})
+                  </span>
+                  <span className="text-gray-500">attempt {job.attempts}/{job.maxAttempts}</span>
+                </div>
+                <p className="text-gray-500">
+                  Created {new Date(job.createdAt).toLocaleString()}
+                  {job.status === "queued" && ` - next attempt ${new Date(job.runAt).toLocaleString()}`}
+                  {job.completedAt ? ` - finished ${new Date(job.completedAt).toLocaleString()}` : ` - deadline ${new Date(job.deadline).toLocaleString()}`}
+                </p>
+                {job.lastError && <p className="text-red-600">{job.lastError}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
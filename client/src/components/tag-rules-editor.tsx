@@ -0,0 +1,203 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+type TagMatchType = "exact" | "prefix" | "regex";
+
+interface TagRule {
+  matchType: TagMatchType;
+  pattern: string;
+  tier: string;
+  priority: number;
+}
+
+interface TagEvaluation {
+  tier: string;
+  hasPlanTag: boolean;
+  whiteLabelAccess: boolean;
+  matchedRule: { tag: string; rule: TagRule } | null;
+  matches: { tag: string; rule: TagRule }[];
+}
+
+const WHITE_LABEL_TIER = "white_label";
+
+// Edits the HighLevel tag-to-plan rules behind `endpoint` (GET/PUT, plus POST <endpoint>/preview)
+export function TagRulesEditor({ endpoint, tiers }: { endpoint: string; tiers: { tier: string; name: string }[] }) {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<TagRule[]>([]);
+  const [testTags, setTestTags] = useState("");
+  const [preview, setPreview] = useState<TagEvaluation | null>(null);
+
+  const { data } = useQuery<{ rules: TagRule[]; isDefault: boolean }>({
+    queryKey: [endpoint],
+  });
+
+  useEffect(() => {
+    if (data) {
+      setRules(data.rules);
+    }
+  }, [data]);
+
+  const updateRule = (index: number, changes: Partial<TagRule>) => {
+    setRules(current => current.map((rule, i) => i === index ? { ...rule, ...changes } : rule));
+  };
+
+  const saveMutation = useMutation({
+    // An empty list restores the default rules
+    mutationFn: async (newRules: TagRule[]) => {
+      const response = await apiRequest("PUT", endpoint, { rules: newRules });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Tag Rules Saved", description: "New HighLevel tags will be matched with these rules." });
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save tag rules", variant: "destructive" });
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const tags = testTags.split(/[\n,]/).map(tag => tag.trim()).filter(Boolean);
+      const response = await apiRequest("POST", `${endpoint}/preview`, { tags, rules });
+      return response.json() as Promise<TagEvaluation>;
+    },
+    onSuccess: setPreview,
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to test tags", variant: "destructive" });
+    },
+  });
+
+  const tierName = (tier: string) =>
+    tier === WHITE_LABEL_TIER ? "White label access" : tiers.find(plan => plan.tier === tier)?.name || tier;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>HighLevel Tag Rules</CardTitle>
+        <CardDescription>
+          Choose the plan a contact gets from their HighLevel tags. When tags match several rules, the highest priority wins.
+          {data?.isDefault && " These are the default rules."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.map((rule, index) => (
+          <div key={index} className="grid gap-2 md:grid-cols-[8rem_1fr_10rem_6rem_auto] items-end">
+            <div>
+              <Label>Match</Label>
+              <Select value={rule.matchType} onValueChange={(matchType: TagMatchType) => updateRule(index, { matchType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="exact">Exact</SelectItem>
+                  <SelectItem value="prefix">Starts with</SelectItem>
+                  <SelectItem value="regex">Regex</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Tag</Label>
+              <Input
+                value={rule.pattern}
+                onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                className={rule.matchType === "regex" ? "font-mono" : undefined}
+              />
+            </div>
+            <div>
+              <Label>Plan</Label>
+              <Select value={rule.tier} onValueChange={(tier) => updateRule(index, { tier })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {tiers.map(plan => (
+                    <SelectItem key={plan.tier} value={plan.tier}>{plan.name}</SelectItem>
+                  ))}
+                  <SelectItem value={WHITE_LABEL_TIER}>White label access</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Priority</Label>
+              <Input
+                type="number"
+                value={rule.priority}
+                onChange={(e) => updateRule(index, { priority: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+            <Button variant="ghost" onClick={() => setRules(rules.filter((_, i) => i !== index))}>
+              Remove
+            </Button>
+          </div>
+        ))}
+
+        <Button
+          variant="outline"
+          onClick={() => setRules([...rules, { matchType: "exact", pattern: "", tier: tiers[0]?.tier || "free", priority: 0 }])}
+        >
+          Add Rule
+        </Button>
+
+        <div className="border-t pt-4 space-y-2">
+          <Label htmlFor="testTags">Test Tags</Label>
+          <Textarea
+            id="testTags"
+            value={testTags}
+            onChange={(e) => setTestTags(e.target.value)}
+            placeholder="One tag per line, e.g. XAUTI 27 CONTENT TOOL"
+            rows={3}
+          />
+          <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={previewMutation.isPending}>
+            {previewMutation.isPending ? "Testing..." : "Test These Tags"}
+          </Button>
+          {preview && (
+            <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-md text-sm space-y-1">
+              <p>
+                Plan: <Badge variant="outline">{tierName(preview.tier)}</Badge>
+                {preview.whiteLabelAccess && <Badge className="ml-2">White label access</Badge>}
+              </p>
+              <p className="text-gray-600">
+                {preview.matchedRule
+                  ? `Decided by "${preview.matchedRule.tag}" matching ${preview.matchedRule.rule.matchType} "${preview.matchedRule.rule.pattern}" (priority ${preview.matchedRule.rule.priority})`
+                  : "No plan rule matched - the contact would be on the free tier"}
+              </p>
+              {preview.matches.length > 0 && (
+                <p className="text-gray-500">
+                  All matches: {preview.matches.map(match => `"${match.tag}" -> ${tierName(match.rule.tier)}`).join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        <Button onClick={() => saveMutation.mutate(rules)} disabled={saveMutation.isPending} className="flex-1">
+          {saveMutation.isPending ? "Saving..." : "Save Rules"}
+        </Button>
+        {data && !data.isDefault && (
+          <Button
+            variant="outline"
+            onClick={() => {
+              if (confirm("Replace your tag rules with the defaults?")) {
+                saveMutation.mutate([]);
+              }
+            }}
+            disabled={saveMutation.isPending}
+          >
+            Reset to Defaults
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
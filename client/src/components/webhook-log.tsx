@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+interface WebhookDelivery {
+  id: number;
+  tenantId: number | null;
+  source: string;
+  headers: Record<string, string>;
+  body: unknown;
+  bodySize: number | null;
+  verified: boolean;
+  verificationMethod: string | null;
+  status: string;
+  outcome: string | null;
+  userId: number | null;
+  contentRequestId: number | null;
+  replayOf: number | null;
+  createdAt: string;
+  processedAt: string | null;
+}
+
+const SOURCES = ["stripe", "highlevel", "n8n"];
+const STATUSES = ["received", "processed", "rejected", "invalid", "failed"];
+const ALL = "all";
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  processed: "default",
+  received: "secondary",
+  rejected: "destructive",
+  invalid: "destructive",
+  failed: "destructive",
+};
+
+// Inbound webhook log for the platform admin, with filters and replay
+export function WebhookLog({ tenants }: { tenants: { id: number; name: string }[] }) {
+  const { toast } = useToast();
+  const [source, setSource] = useState(ALL);
+  const [status, setStatus] = useState(ALL);
+  const [tenantId, setTenantId] = useState(ALL);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const params = new URLSearchParams();
+  if (source !== ALL) params.set("source", source);
+  if (status !== ALL) params.set("status", status);
+  if (tenantId !== ALL) params.set("tenantId", tenantId);
+  const listUrl = `/api/admin/webhook-deliveries?${params.toString()}`;
+
+  const { data: deliveries = [], isLoading, refetch } = useQuery<WebhookDelivery[]>({
+    queryKey: [listUrl],
+  });
+
+  const selected = deliveries.find(delivery => delivery.id === selectedId);
+
+  const tenantName = (id: number | null) =>
+    id === null ? "Main platform" : tenants.find(tenant => tenant.id === id)?.name || `Tenant ${id}`;
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/admin/webhook-deliveries/${id}/replay`);
+      return response.json();
+    },
+    onSuccess: (result) => {
+      toast({ title: "Delivery Replayed", description: `Logged as delivery #${result.deliveryId}.` });
+      if (result.deliveryId) setSelectedId(result.deliveryId);
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/admin/webhook-deliveries") });
+    },
+    onError: (error: any) => {
+      toast({ title: "Replay Failed", description: error.message || "Failed to replay delivery", variant: "destructive" });
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/admin/webhook-deliveries") });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Webhook Deliveries</CardTitle>
+          <CardDescription>
+            Every Stripe, HighLevel and n8n delivery, newest first. Credentials in headers are redacted; unverified deliveries keep only their size.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-[1fr_1fr_1fr_auto] items-end">
+            <div>
+              <Label>Source</Label>
+              <Select value={source} onValueChange={setSource}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All sources</SelectItem>
+                  {SOURCES.map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All statuses</SelectItem>
+                  {STATUSES.map(value => (
+                    <SelectItem key={value} value={value}>{value}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Tenant</Label>
+              <Select value={tenantId} onValueChange={setTenantId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All tenants</SelectItem>
+                  <SelectItem value="main">Main platform</SelectItem>
+                  {tenants.map(tenant => (
+                    <SelectItem key={tenant.id} value={String(tenant.id)}>{tenant.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={() => refetch()}>
+              Refresh
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading deliveries...</p>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-gray-500">No deliveries match these filters.</p>
+          ) : (
+            <div className="divide-y border rounded-md">
+              {deliveries.map(delivery => (
+                <button
+                  key={delivery.id}
+                  type="button"
+                  onClick={() => setSelectedId(delivery.id)}
+                  className={`w-full text-left p-3 text-sm flex flex-wrap items-center gap-2 hover:bg-gray-50 dark:hover:bg-gray-800 ${selectedId === delivery.id ? "bg-gray-50 dark:bg-gray-800" : ""}`}
+                >
+                  <span className="font-mono text-gray-500">#{delivery.id}</span>
+                  <Badge variant="outline">{delivery.source}</Badge>
+                  <Badge variant={STATUS_VARIANTS[delivery.status] || "outline"}>{delivery.status}</Badge>
+                  {!delivery.verified && <Badge variant="destructive">unverified</Badge>}
+                  {delivery.replayOf && <Badge variant="secondary">replay of #{delivery.replayOf}</Badge>}
+                  <span className="text-gray-600">{tenantName(delivery.tenantId)}</span>
+                  <span className="text-gray-500 truncate flex-1">{delivery.outcome}</span>
+                  <span className="text-gray-400">{new Date(delivery.createdAt).toLocaleString()}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Delivery #{selected.id}</CardTitle>
+            <CardDescription>
+              {selected.source} for {tenantName(selected.tenantId)}, received {new Date(selected.createdAt).toLocaleString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div className="space-y-1">
+              <p>Status: {selected.status}{selected.processedAt && ` (${new Date(selected.processedAt).toLocaleString()})`}</p>
+              <p>Verification: {selected.verified ? `verified by ${selected.verificationMethod}` : "not verified"}</p>
+              {selected.outcome && <p>Outcome: {selected.outcome}</p>}
+              {selected.userId && <p>User: #{selected.userId}</p>}
+              {selected.contentRequestId && <p>Content request: #{selected.contentRequestId}</p>}
+            </div>
+            {selected.bodySize !== null ? (
+              <p className="text-gray-500">Headers and body not stored for unverified deliveries ({selected.bodySize} bytes received).</p>
+            ) : (
+              <>
+                <div>
+                  <Label>Headers</Label>
+                  <pre className="bg-gray-50 dark:bg-gray-800 p-3 rounded-md overflow-auto max-h-60 text-xs">
+                    {JSON.stringify(selected.headers, null, 2)}
+                  </pre>
+                </div>
+                <div>
+                  <Label>Body</Label>
+                  <pre className="bg-gray-50 dark:bg-gray-800 p-3 rounded-md overflow-auto max-h-96 text-xs">
+                    {JSON.stringify(selected.body, null, 2)}
+                  </pre>
+                </div>
+              </>
+            )}
+            <Button
+              onClick={() => {
+                if (confirm(`Run delivery #${selected.id} through the ${selected.source} handler again?`)) {
+                  replayMutation.mutate(selected.id);
+                }
+              }}
+              disabled={!selected.verified || replayMutation.isPending}
+            >
+              {replayMutation.isPending ? "Replaying..." : selected.verified ? "Replay Delivery" : "Unverified deliveries can't be replayed"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
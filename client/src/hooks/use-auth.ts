@@ -0,0 +1,58 @@
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+
+export interface AuthUser {
+  id: number;
+  name: string;
+  email: string;
+  role: "platform_admin" | "tenant_owner" | "member";
+  contentStreak: number;
+  lastContentDate: string | null;
+  subscriptionTier: string;
+  subscriptionStatus: string;
+  subscriptionEndDate: string | null;
+  generationsLimit: number;
+  generationsUsed: number;
+  scriptGenerationsLimit: number;
+  scriptGenerationsUsed: number;
+  purchasedGenerations: number;
+  purchasedScriptGenerations: number;
+  currentPeriodStart: string | null;
+  currentPeriodEnd: string | null;
+  stripeCustomerId: string | null;
+  stripeSubscriptionId: string | null;
+  tags: string[];
+}
+
+export const AUTH_QUERY_KEY = ["/api/auth/me"];
+
+export function useAuth() {
+  const { data, isLoading } = useQuery<{ user: AuthUser } | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const user = data?.user ?? null;
+
+  return {
+    user,
+    isLoading,
+    isAuthenticated: !!user,
+    isPlatformAdmin: user?.role === "platform_admin",
+    isTenantOwner: user?.role === "tenant_owner",
+  };
+}
+
+// Refresh the session user after sign in or any change to their account
+export function refreshAuth() {
+  return queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+}
+
+export async function logout() {
+  try {
+    await apiRequest("POST", "/api/auth/logout");
+  } finally {
+    queryClient.clear();
+    queryClient.setQueryData(AUTH_QUERY_KEY, null);
+  }
+}
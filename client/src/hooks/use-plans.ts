@@ -0,0 +1,34 @@
+import { useQuery } from "@tanstack/react-query";
+
+// Mirrors the server's plan catalog; prices are in cents and a null credit price means it can't be bought
+export interface Plan {
+  tier: string;
+  name: string;
+  price: number;
+  generationsLimit: number;
+  scriptGenerationsLimit: number;
+  creditPrices: { content: number | null; script: number | null };
+  features: { checkout: boolean; unlimited: boolean };
+  stripePriceId?: string;
+}
+
+export const PLANS_QUERY_KEY = ["/api/plans"];
+
+export function usePlans() {
+  const { data, isLoading } = useQuery<{ plans: Plan[]; isCustom: boolean }>({
+    queryKey: PLANS_QUERY_KEY,
+  });
+
+  const plans = data?.plans ?? [];
+
+  return {
+    plans,
+    isLoading,
+    findPlan: (tier: string | null | undefined) => plans.find(plan => plan.tier === (tier || "free")),
+  };
+}
+
+// "$27", or "$7.50" when there are cents
+export function formatPrice(cents: number) {
+  return `$${(cents / 100).toFixed(cents % 100 === 0 ? 0 : 2)}`;
+}
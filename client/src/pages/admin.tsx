@@ -9,6 +9,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TagRulesEditor } from "@/components/tag-rules-editor";
+import { WebhookLog } from "@/components/webhook-log";
+import { JobQueue } from "@/components/job-queue";
+import { usePlans } from "@/hooks/use-plans";
+
+type CredentialPolicy = "platform_fallback" | "tenant_only";
 
 interface Tenant {
   id: number;
@@ -31,6 +38,8 @@ interface Tenant {
   stripePublicKey?: string;
   stripeWebhookSecret?: string;
   openaiApiKey?: string;
+  openaiPolicy: CredentialPolicy;
+  stripePolicy: CredentialPolicy;
   isActive: boolean;
   plan: string;
   createdAt: string;
@@ -40,22 +49,29 @@ interface Tenant {
 interface CreateTenantForm {
   companyName: string;
   customDomain: string;
+  ownerEmail: string;
   n8nWebhookUrl: string;
   stripeSecretKey: string;
   stripePublicKey: string;
   openaiApiKey: string;
+  openaiPolicy: CredentialPolicy;
+  stripePolicy: CredentialPolicy;
 }
 
 export default function Admin() {
   const { toast } = useToast();
+  const { plans } = usePlans();
   const [activeTab, setActiveTab] = useState("overview");
   const [newTenant, setNewTenant] = useState<CreateTenantForm>({
     companyName: "",
     customDomain: "",
+    ownerEmail: "",
     n8nWebhookUrl: "",
     stripeSecretKey: "",
     stripePublicKey: "",
-    openaiApiKey: ""
+    openaiApiKey: "",
+    openaiPolicy: "platform_fallback",
+    stripePolicy: "tenant_only"
   });
 
   // Fetch all tenants
@@ -87,6 +103,31 @@ export default function Admin() {
     },
   });
 
+  // Workflow dry-run mutation
+  const testWorkflowMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/admin/tenants/${id}/test-workflow`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      const workflowLabel = data.source === 'tenant' ? "Client workflow" : "Platform default workflow";
+      toast({
+        title: data.ok ? "Workflow Test Passed" : "Workflow Test Failed",
+        description: data.ok
+          ? `${workflowLabel} responded with ${data.status} in ${data.durationMs}ms`
+          : `${workflowLabel} ${data.status ? `responded with ${data.status}` : `failed: ${data.error}`}`,
+        variant: data.ok ? "default" : "destructive",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Workflow Test Failed",
+        description: error.message || "Could not reach the workflow",
+        variant: "destructive",
+      });
+    },
+  });
+
   // DNS check mutation
   const checkDnsMutation = useMutation({
     mutationFn: async ({ domain, expectedTarget }: { domain: string; expectedTarget: string }) => {
@@ -141,6 +182,7 @@ export default function Admin() {
         domain: tenant.customDomain,
         subdomain: subdomain,
         ownerId: 0,
+        ownerEmail: tenant.ownerEmail || undefined,
         brandingConfig: {
           companyName: tenant.companyName,
           primaryColor: "#0066cc",
@@ -150,6 +192,8 @@ export default function Admin() {
         stripeSecretKey: tenant.stripeSecretKey,
         stripePublicKey: tenant.stripePublicKey,
         openaiApiKey: tenant.openaiApiKey,
+        openaiPolicy: tenant.openaiPolicy,
+        stripePolicy: tenant.stripePolicy,
         isActive: true,
         plan: "white_label"
       });
@@ -163,10 +207,13 @@ export default function Admin() {
       setNewTenant({
         companyName: "",
         customDomain: "",
+        ownerEmail: "",
         n8nWebhookUrl: "",
         stripeSecretKey: "",
         stripePublicKey: "",
-        openaiApiKey: ""
+        openaiApiKey: "",
+        openaiPolicy: "platform_fallback",
+        stripePolicy: "tenant_only"
       });
       // Switch to manage tab to show the new client
       setActiveTab("manage");
@@ -207,10 +254,13 @@ export default function Admin() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="create">New Client</TabsTrigger>
             <TabsTrigger value="manage">Manage</TabsTrigger>
+            <TabsTrigger value="tags">Tag Rules</TabsTrigger>
+            <TabsTrigger value="webhooks">Webhooks</TabsTrigger>
+            <TabsTrigger value="jobs">Jobs</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview">
@@ -273,6 +323,20 @@ export default function Admin() {
                     )}
                   </div>
 
+                  <div>
+                    <Label htmlFor="ownerEmail">Owner Email (Optional)</Label>
+                    <Input
+                      id="ownerEmail"
+                      type="email"
+                      value={newTenant.ownerEmail}
+                      onChange={(e) => setNewTenant({ ...newTenant, ownerEmail: e.target.value })}
+                      placeholder="owner@clientbusiness.com"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      The owner gets an invitation to manage this platform's users, branding and keys
+                    </p>
+                  </div>
+
                   <div>
                     <Label htmlFor="customDomain">Custom Domain (Optional)</Label>
                     <Input
@@ -352,6 +416,39 @@ export default function Admin() {
                       placeholder="sk-proj-..."
                     />
                   </div>
+
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <div>
+                      <Label>Without an OpenAI key</Label>
+                      <Select
+                        value={newTenant.openaiPolicy}
+                        onValueChange={(openaiPolicy: CredentialPolicy) => setNewTenant({ ...newTenant, openaiPolicy })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="platform_fallback">Use platform account</SelectItem>
+                          <SelectItem value="tenant_only">Disable AI features</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>Without a Stripe key</Label>
+                      <Select
+                        value={newTenant.stripePolicy}
+                        onValueChange={(stripePolicy: CredentialPolicy) => setNewTenant({ ...newTenant, stripePolicy })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="tenant_only">Disable payments</SelectItem>
+                          <SelectItem value="platform_fallback">Use platform account</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
                 </div>
 
                 <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-md">
@@ -629,6 +726,14 @@ Your platform is completely isolated and you control all customer data and reven
                               </Button>
                             </>
                           )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => testWorkflowMutation.mutate(tenant.id)}
+                            disabled={testWorkflowMutation.isPending}
+                          >
+                            {testWorkflowMutation.isPending ? "Testing..." : "Test Workflow"}
+                          </Button>
                           <Button 
                             size="sm" 
                             variant="destructive"
@@ -649,6 +754,19 @@ Your platform is completely isolated and you control all customer data and reven
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="tags">
+            {/* Main platform rules; each white label client edits its own from its console */}
+            <TagRulesEditor endpoint="/api/admin/tag-rules" tiers={plans} />
+          </TabsContent>
+
+          <TabsContent value="webhooks">
+            <WebhookLog tenants={tenants || []} />
+          </TabsContent>
+
+          <TabsContent value="jobs">
+            <JobQueue tenants={tenants || []} />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
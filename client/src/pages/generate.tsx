@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useLocation } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,11 +6,17 @@ import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Textarea } from "@/components/ui/textarea";
 import { Loader2, CheckCircle, AlertCircle, Download, ArrowLeft, Clock } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth, AUTH_QUERY_KEY } from "@/hooks/use-auth";
+import { usePlans, formatPrice } from "@/hooks/use-plans";
+import { queryClient } from "@/lib/queryClient";
 
 interface GenerationState {
   status: 'generating' | 'completed' | 'failed' | 'scripts-prompt' | 'tone-setup' | 'generating-scripts';
   progress: number;
+  progressMessage?: string | null;
+  scriptProgress?: number;
   csvData?: {
     csvBase64: string;
     filename: string;
@@ -23,6 +29,43 @@ interface GenerationState {
   error?: string;
 }
 
+// 403 body returned when the user is out of content or script credits
+interface CreditLimitError {
+  error: 'GENERATION_LIMIT_EXCEEDED';
+  message: string;
+  creditType: 'content' | 'script';
+  tierName: string;
+  used: number;
+  allowance: number;
+  purchased: number;
+  periodEnd: string | null;
+  purchase: { endpoint: string; pricePerCredit: number } | null;
+}
+
+// Request state shared by the progress stream and /api/content-status
+interface ContentStatus {
+  status: string;
+  progress?: number | null;
+  progressMessage?: string | null;
+  error?: string | null;
+  scriptStatus: string | null;
+}
+
+// Body of /api/content-status/:requestId; the CSVs are only present once they're ready
+interface ContentStatusResponse extends ContentStatus {
+  csvData?: GenerationState['csvData'];
+  scriptData?: GenerationState['scriptData'];
+  completedAt?: string | null;
+}
+
+// Events from /api/content-stream/:requestId
+type RequestStreamEvent =
+  | { type: 'status'; data: ContentStatus }
+  | { type: 'script-progress'; data: { day: number; totalDays: number; percent: number } }
+  | { type: 'result'; data: { artifact: 'content' | 'scripts'; requestId: number; filename: string } };
+
+const STREAM_EVENTS = ['status', 'script-progress', 'result'] as const;
+
 interface ToneSetupData {
   useDefaultTone: boolean;
   customTone?: string;
@@ -31,24 +74,11 @@ interface ToneSetupData {
   isAnalyzingTone?: boolean;
 }
 
-interface User {
-  id: number;
-  name: string;
-  email: string;
-  contentStreak: number;
-  lastContentDate: string | null;
-  subscriptionTier: string;
-  subscriptionStatus: string;
-  subscriptionEndDate: string | null;
-  generationsLimit: number;
-  generationsUsed: number;
-  tags: string[];
-}
-
 export default function Generate() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const [user, setUser] = useState<User | null>(null);
+  const { user } = useAuth();
+  const { plans, findPlan } = usePlans();
   const [generationState, setGenerationState] = useState<GenerationState>({
     status: 'generating',
     progress: 0
@@ -60,32 +90,46 @@ export default function Generate() {
     callToAction: "",
     isAnalyzingTone: false
   });
+  const streamRef = useRef<EventSource | null>(null);
+
+  // Close any open progress stream when leaving the page
+  useEffect(() => () => streamRef.current?.close(), []);
+
+  // Offer a purchase (or an upgrade) when the server reports the user is out of credits
+  const showCreditLimit = (limit: CreditLimitError) => {
+    const resets = limit.periodEnd && limit.allowance > 0
+      ? ` Your allowance resets on ${new Date(limit.periodEnd).toLocaleDateString()}.`
+      : '';
+    toast({
+      title: limit.creditType === 'script' ? "No Script Generations Left" : "Generation Limit Reached",
+      description: limit.purchase
+        ? `${limit.message}${resets} Buy more for $${limit.purchase.pricePerCredit} each.`
+        : `${limit.message} Upgrade your plan to continue.`,
+      variant: "destructive",
+      action: limit.purchase ? (
+        <ToastAction altText="Buy generations" onClick={() => setLocation('/settings')}>
+          Buy More
+        </ToastAction>
+      ) : undefined,
+    });
+  };
 
   // Get passed data from URL params (more reliable than wouter state)
   const urlParams = new URLSearchParams(window.location.search);
   const industry = urlParams.get('industry') || '';
   const selectedTopicsParam = urlParams.get('topics') || '';
   const selectedTopics = selectedTopicsParam ? selectedTopicsParam.split(',') : [];
-  const userId = parseInt(urlParams.get('userId') || '0');
 
   useEffect(() => {
     // Check for user authentication
-    const storedUser = localStorage.getItem("xauti_user");
-    if (storedUser) {
-      try {
-        setUser(JSON.parse(storedUser));
-      } catch (error) {
-        setLocation('/');
-        return;
-      }
-    } else {
+    if (!user) {
       setLocation('/');
       return;
     }
 
-    console.log('Generate page data:', { industry, selectedTopics, userId });
+    console.log('Generate page data:', { industry, selectedTopics });
 
-    if (!industry || !selectedTopics.length || !userId) {
+    if (!industry || !selectedTopics.length) {
       toast({
         title: "Missing Information",
         description: "Please go back and fill out the content generation form.",
@@ -96,23 +140,43 @@ export default function Generate() {
     }
 
     generateContent();
-  }, [industry, selectedTopics.length, userId]);
+  }, [industry, selectedTopics.length]);
 
-  // Progress simulation during generation
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (generationState.status === 'generating') {
-      interval = setInterval(() => {
-        setGenerationState(prev => ({
-          ...prev,
-          progress: prev.progress >= 95 ? 95 : prev.progress + Math.random() * 8
-        }));
-      }, 2000);
+  // Follow a request's progress stream. onUnavailable runs if the browser can't open it or the
+  // server refuses it, so the caller can fall back to polling.
+  const followRequest = (
+    requestId: number,
+    onEvent: (event: RequestStreamEvent, close: () => void) => void,
+    onUnavailable: () => void
+  ) => {
+    streamRef.current?.close();
+    if (typeof EventSource === 'undefined') {
+      onUnavailable();
+      return;
     }
-    return () => {
-      if (interval) clearInterval(interval);
+
+    const source = new EventSource(`/api/content-stream/${requestId}`);
+    streamRef.current = source;
+    let opened = false;
+    const close = () => source.close();
+
+    source.onopen = () => {
+      opened = true;
     };
-  }, [generationState.status]);
+    source.onerror = () => {
+      // EventSource reconnects by itself after a dropped connection; give up only if it never
+      // connected or the server closed it for good
+      if (!opened || source.readyState === EventSource.CLOSED) {
+        close();
+        onUnavailable();
+      }
+    };
+    for (const type of STREAM_EVENTS) {
+      source.addEventListener(type, (message) => {
+        onEvent({ type, data: JSON.parse((message as MessageEvent).data) } as RequestStreamEvent, close);
+      });
+    }
+  };
 
   const generateContent = async () => {
     try {
@@ -128,8 +192,7 @@ export default function Generate() {
         },
         body: JSON.stringify({
           industry: industry.trim(),
-          selected_topics: selectedTopics,
-          userId: userId
+          selected_topics: selectedTopics
         })
       });
 
@@ -138,17 +201,14 @@ export default function Generate() {
         
         // Handle generation limit exceeded
         if (errorData.error === 'GENERATION_LIMIT_EXCEEDED') {
+          const limit = errorData as CreditLimitError;
           setGenerationState({
             status: 'failed',
             progress: 0,
-            error: `Generation limit reached for ${errorData.tierName} plan. You've used ${errorData.generationsUsed} of ${errorData.tierLimit} generations.`
+            error: `Generation limit reached for ${limit.tierName} plan. ${limit.message}${limit.periodEnd && limit.allowance > 0 ? ` Resets ${new Date(limit.periodEnd).toLocaleDateString()}.` : ''}`
           });
           
-          toast({
-            title: "Generation Limit Reached",
-            description: `Upgrade your plan or purchase additional generations to continue.`,
-            variant: "destructive",
-          });
+          showCreditLimit(limit);
           return;
         }
         
@@ -158,8 +218,8 @@ export default function Generate() {
       const responseData = await response.json();
       
       if (responseData.success && responseData.requestId) {
-        // Start polling for status updates
-        pollForCompletion(responseData.requestId);
+        // Follow progress over the event stream (polling if it's unavailable)
+        followContent(responseData.requestId);
         
         toast({
           title: "Generation Started",
@@ -189,6 +249,85 @@ export default function Generate() {
     }
   };
 
+  // Apply a content status (from the stream or a poll); returns true once the request has finished
+  const applyContentStatus = (requestId: number, statusData: ContentStatusResponse): boolean => {
+    if (statusData.status === 'completed' && statusData.csvData) {
+      setGenerationState({
+        status: 'scripts-prompt',
+        progress: 100,
+        csvData: statusData.csvData,
+        requestId: requestId
+      });
+
+      toast({
+        title: "Success!",
+        description: "Your content has been generated successfully.",
+      });
+      return true;
+    }
+
+    if (statusData.status === 'failed') {
+      setGenerationState({
+        status: 'failed',
+        progress: 100,
+        error: statusData.error || 'Content generation failed'
+      });
+
+      toast({
+        title: "Error",
+        description: statusData.error || "Content generation failed. Please try again.",
+        variant: "destructive",
+      });
+      return true;
+    }
+
+    // Still processing: show what the workflow last reported
+    setGenerationState(prev => prev.status !== 'generating' ? prev : {
+      ...prev,
+      progress: statusData.progress ?? prev.progress,
+      progressMessage: statusData.progressMessage ?? prev.progressMessage
+    });
+    return false;
+  };
+
+  const fetchContentStatus = async (requestId: number): Promise<ContentStatusResponse> => {
+    const response = await fetch(`/api/content-status/${requestId}`);
+    if (!response.ok) {
+      throw new Error('Failed to check status');
+    }
+    return response.json();
+  };
+
+  const showStatusError = (error: unknown) => {
+    console.error('Status check error:', error);
+    setGenerationState({
+      status: 'failed',
+      progress: 100,
+      error: 'Failed to check generation status'
+    });
+
+    toast({
+      title: "Error",
+      description: "Failed to check generation status. Please refresh the page.",
+      variant: "destructive",
+    });
+  };
+
+  const followContent = (requestId: number) => {
+    followRequest(requestId, (event, close) => {
+      if (event.type === 'status' && event.data.status !== 'completed') {
+        if (applyContentStatus(requestId, event.data)) close();
+      } else if (event.type === 'result' && event.data.artifact === 'content') {
+        // The stream only announces the CSV; fetch it once
+        close();
+        fetchContentStatus(requestId)
+          .then(statusData => applyContentStatus(requestId, statusData))
+          .catch(showStatusError);
+      }
+    }, () => pollForCompletion(requestId));
+  };
+
+  // Fallback when the event stream is unavailable
   const pollForCompletion = async (requestId: number) => {
     const maxAttempts = 60; // Poll for up to 10 minutes (every 10 seconds)
     let attempts = 0;
@@ -197,71 +336,29 @@ export default function Generate() {
       try {
         attempts++;
         
-        const response = await fetch(`/api/content-status/${requestId}`);
-        if (!response.ok) {
-          throw new Error('Failed to check status');
-        }
-        
-        const statusData = await response.json();
-        
-        if (statusData.status === 'completed' && statusData.csvData) {
-          setGenerationState({
-            status: 'scripts-prompt',
-            progress: 100,
-            csvData: statusData.csvData,
-            requestId: requestId
-          });
-          
-          toast({
-            title: "Success!",
-            description: "Your content has been generated successfully.",
-          });
+        const statusData = await fetchContentStatus(requestId);
+        if (applyContentStatus(requestId, statusData)) {
           return;
-        } else if (statusData.status === 'failed') {
+        }
+
+        if (attempts < maxAttempts) {
+          setTimeout(poll, 10000); // Poll every 10 seconds
+        } else {
+          // Timeout after max attempts
           setGenerationState({
             status: 'failed',
             progress: 100,
-            error: statusData.error || 'Content generation failed'
+            error: 'Generation timeout - took longer than expected'
           });
           
           toast({
-            title: "Error",
-            description: statusData.error || "Content generation failed. Please try again.",
+            title: "Timeout",
+            description: "Content generation is taking longer than expected. Please try again or contact support.",
             variant: "destructive",
           });
-          return;
-        } else if (statusData.status === 'processing') {
-          // Still processing, continue polling
-          if (attempts < maxAttempts) {
-            setTimeout(poll, 10000); // Poll every 10 seconds
-          } else {
-            // Timeout after max attempts
-            setGenerationState({
-              status: 'failed',
-              progress: 100,
-              error: 'Generation timeout - took longer than expected'
-            });
-            
-            toast({
-              title: "Timeout",
-              description: "Content generation is taking longer than expected. Please try again or contact support.",
-              variant: "destructive",
-            });
-          }
         }
       } catch (error) {
-        console.error('Polling error:', error);
-        setGenerationState({
-          status: 'failed',
-          progress: 100,
-          error: 'Failed to check generation status'
-        });
-        
-        toast({
-          title: "Error",
-          description: "Failed to check generation status. Please refresh the page.",
-          variant: "destructive",
-        });
+        showStatusError(error);
       }
     };
     
@@ -348,22 +445,49 @@ export default function Generate() {
     }
   };
 
+  // Scripts are written by a background job; follow its day-by-day progress until they're ready
+  const waitForScripts = (requestId: number) => new Promise<GenerationState['scriptData']>((resolve, reject) => {
+    setGenerationState(prev => ({ ...prev, scriptProgress: 0 }));
+    followRequest(requestId, (event, close) => {
+      if (event.type === 'script-progress') {
+        setGenerationState(prev => ({ ...prev, scriptProgress: event.data.percent }));
+      } else if (event.type === 'status' && event.data.scriptStatus === 'failed') {
+        close();
+        reject(new Error('Script generation failed'));
+      } else if (event.type === 'result' && event.data.artifact === 'scripts') {
+        close();
+        fetchContentStatus(requestId)
+          .then(statusData => resolve(statusData.scriptData))
+          .catch(reject);
+      }
+    }, () => pollForScripts(requestId).then(resolve, reject));
+  });
+
+  // Fallback when the event stream is unavailable
+  const pollForScripts = async (requestId: number): Promise<GenerationState['scriptData']> => {
+    const maxAttempts = 240; // Up to 20 minutes (every 5 seconds)
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 5000));
+
+      const response = await fetch(`/api/content-status/${requestId}`);
+      if (!response.ok) {
+        throw new Error('Failed to check script status');
+      }
+
+      const statusData: ContentStatusResponse = await response.json();
+      if (statusData.scriptStatus === 'completed' && statusData.scriptData) {
+        return statusData.scriptData;
+      }
+      if (statusData.scriptStatus === 'failed') {
+        throw new Error('Script generation failed');
+      }
+    }
+    throw new Error('Script generation timeout');
+  };
+
   const generateScripts = async () => {
     if (!generationState.requestId) return;
     
-    // Check if user has Pro+ access for script generation
-    const currentUser = JSON.parse(localStorage.getItem("xauti_user") || "{}");
-    const tier = currentUser.subscriptionTier || 'free';
-    
-    if (tier === 'free' || tier === 'basic') {
-      toast({
-        title: "Script Generation Unavailable",
-        description: "Script generation is only available for Pro ($27) and Unlimited ($99+) subscribers. Your content is still available for download.",
-        variant: "destructive",
-      });
-      return;
-    }
-    
     try {
       setGenerationState(prev => ({
         ...prev,
@@ -376,22 +500,32 @@ export default function Generate() {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          requestId: generationState.requestId,
-          userEmail: currentUser.email
+          requestId: generationState.requestId
         })
       });
 
       if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData.error === 'GENERATION_LIMIT_EXCEEDED') {
+          setGenerationState(prev => ({
+            ...prev,
+            status: 'completed'
+          }));
+          showCreditLimit(errorData as CreditLimitError);
+          return;
+        }
         throw new Error('Failed to generate scripts');
       }
 
-      const scriptResponse = await response.json();
+      const scriptData = await waitForScripts(generationState.requestId);
       
-      if (scriptResponse.success && scriptResponse.scriptData) {
+      if (scriptData) {
+        // Refresh the remaining script credits shown elsewhere
+        queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
         setGenerationState(prev => ({
           ...prev,
           status: 'completed',
-          scriptData: scriptResponse.scriptData
+          scriptData
         }));
         
         toast({
@@ -509,16 +643,27 @@ export default function Generate() {
       });
 
       if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData.error === 'GENERATION_LIMIT_EXCEEDED') {
+          setGenerationState(prev => ({
+            ...prev,
+            status: 'completed'
+          }));
+          showCreditLimit(errorData as CreditLimitError);
+          return;
+        }
         throw new Error('Failed to generate scripts');
       }
 
-      const scriptResponse = await response.json();
+      const scriptData = await waitForScripts(generationState.requestId);
       
-      if (scriptResponse.success && scriptResponse.scriptData) {
+      if (scriptData) {
+        // Refresh the remaining script credits shown elsewhere
+        queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
         setGenerationState(prev => ({
           ...prev,
           status: 'completed',
-          scriptData: scriptResponse.scriptData
+          scriptData
         }));
         
         toast({
@@ -622,7 +767,7 @@ export default function Generate() {
               
               <div className="bg-gray-50 rounded-lg p-4">
                 <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
-                  <span>Processing content</span>
+                  <span>{generationState.progressMessage || 'Processing content'}</span>
                   <span>{Math.round(generationState.progress)}%</span>
                 </div>
                 <Progress value={generationState.progress} className="w-full mb-3" />
@@ -644,9 +789,17 @@ export default function Generate() {
 
         {/* Scripts Prompt Card */}
         {generationState.status === 'scripts-prompt' && (() => {
-          const currentUser = JSON.parse(localStorage.getItem("xauti_user") || "{}");
-          const tier = currentUser.subscriptionTier || 'free';
-          const hasScriptAccess = tier === 'pro' || tier === 'unlimited';
+          const currentPlan = findPlan(user?.subscriptionTier);
+          // Monthly script allowance or purchased script credits
+          const scriptCreditsLeft = Math.max(0, (user?.scriptGenerationsLimit || 0) - (user?.scriptGenerationsUsed || 0)) +
+            (user?.purchasedScriptGenerations || 0);
+          const hasScriptAccess = scriptCreditsLeft > 0;
+          const canBuyScripts = (currentPlan?.creditPrices.script ?? null) !== null;
+          // Plans that come with a monthly script allowance, e.g. "Pro ($27) or Unlimited ($99)"
+          const scriptPlans = plans
+            .filter(plan => plan.features.checkout && plan.scriptGenerationsLimit > 0)
+            .map(plan => `${plan.name} (${formatPrice(plan.price)})`)
+            .join(' or ');
           
           return (
             <Card className="shadow-sm border-blue-200 bg-blue-50">
@@ -658,7 +811,7 @@ export default function Generate() {
                   <div>
                     <h3 className="text-lg font-medium text-blue-900">Content Ready!</h3>
                     <p className="text-sm text-blue-700">
-                      Your 30 days of content is ready. {hasScriptAccess ? "Would you like daily scripts for text-to-speech?" : "Script generation requires Pro+ subscription."}
+                      Your 30 days of content is ready. {hasScriptAccess ? "Would you like daily scripts for text-to-speech?" : canBuyScripts ? "You have no script generations left." : "Script generation requires a paid plan."}
                     </p>
                   </div>
                 </div>
@@ -666,7 +819,7 @@ export default function Generate() {
                 <div className="space-y-4">
                   <div className="bg-white p-4 rounded-lg border border-blue-200">
                     <h4 className="font-medium text-gray-900 mb-2">
-                      {hasScriptAccess ? "Optional: Generate Daily Scripts" : "Script Generation (Pro+ Only)"}
+                      {hasScriptAccess ? `Optional: Generate Daily Scripts (${currentPlan?.features.unlimited ? 'unlimited' : `${scriptCreditsLeft} left`})` : "Script Generation"}
                     </h4>
                     <p className="text-sm text-gray-600 mb-4">
                       Get 30 custom scripts (one for each day) that you can easily copy and paste into any text-to-speech generator. Each script is designed to be exactly 30 seconds when read aloud.
@@ -674,7 +827,11 @@ export default function Generate() {
                     {!hasScriptAccess && (
                       <div className="bg-yellow-50 border border-yellow-200 rounded p-3 mb-4">
                         <p className="text-sm text-yellow-800">
-                          <strong>Upgrade to Pro ($27) or Unlimited ($99+)</strong> to unlock script generation with your content.
+                          {canBuyScripts ? (
+                            <><strong>Buy script generations</strong> in Settings{scriptPlans && `, or upgrade to ${scriptPlans} for a monthly script allowance`}.</>
+                          ) : (
+                            <><strong>Upgrade your plan{scriptPlans && ` to ${scriptPlans}`}</strong> to unlock script generation with your content.</>
+                          )}
                         </p>
                       </div>
                     )}
@@ -705,10 +862,10 @@ export default function Generate() {
                     ) : (
                       <>
                         <Button
-                          onClick={() => window.open('https://xautimarketingai.com/', '_blank')}
+                          onClick={() => canBuyScripts ? setLocation('/settings') : window.open('https://xautimarketingai.com/', '_blank')}
                           className="flex-1 bg-[hsl(24,95%,53%)] hover:bg-[hsl(24,95%,47%)] text-white font-medium"
                         >
-                          Upgrade for Scripts
+                          {canBuyScripts ? "Buy Script Generations" : "Upgrade for Scripts"}
                         </Button>
                         <Button
                           variant="outline"
@@ -926,7 +1083,11 @@ export default function Generate() {
                 </div>
               </div>
               
-              <Progress value={75} className="h-2" />
+              <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+                <span>Writing daily scripts</span>
+                <span>{generationState.scriptProgress ?? 0}%</span>
+              </div>
+              <Progress value={generationState.scriptProgress ?? 0} className="h-2" />
               <p className="text-xs text-gray-500 mt-2">
                 This may take a few minutes as we create custom scripts for each day
               </p>
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Download, ArrowLeft, Calendar, FileText, Clock, CheckCircle, XCircle, Loader2, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 interface ContentRequest {
   id: number;
@@ -22,43 +23,28 @@ interface ContentRequest {
   completedAt?: string;
 }
 
-interface User {
-  id: number;
-  name: string;
-  email: string;
-  subscriptionTier: string;
-}
-
 export default function History() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
-  const [user, setUser] = useState<User | null>(null);
+  const { user } = useAuth();
   const [contentRequests, setContentRequests] = useState<ContentRequest[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [deletingId, setDeletingId] = useState<number | null>(null);
 
   useEffect(() => {
     // Check for user authentication
-    const storedUser = localStorage.getItem("xauti_user");
-    if (storedUser) {
-      try {
-        const userData = JSON.parse(storedUser);
-        setUser(userData);
-        fetchUserHistory(userData.id);
-      } catch (error) {
-        setLocation('/');
-        return;
-      }
-    } else {
+    if (!user) {
       setLocation('/');
       return;
     }
+
+    fetchUserHistory();
   }, []);
 
-  const fetchUserHistory = async (userId: number) => {
+  const fetchUserHistory = async () => {
     try {
       setIsLoading(true);
-      const response = await fetch(`/api/user-history/${userId}`);
+      const response = await fetch('/api/user-history');
       
       if (!response.ok) {
         throw new Error('Failed to fetch history');
@@ -78,33 +64,25 @@ export default function History() {
     }
   };
 
-  const downloadContent = (request: ContentRequest) => {
-    if (!request.csvBase64) {
-      toast({
-        title: "Download Error",
-        description: "No content available for download.",
-        variant: "destructive",
-      });
-      return;
-    }
-
+  // The server builds the CSV from the request's current content items
+  const downloadContent = async (request: ContentRequest) => {
     try {
-      // Create download link
-      const link = document.createElement('a');
-      
-      // Handle different data formats
-      if (request.csvBase64.startsWith('data:')) {
-        link.href = request.csvBase64;
-      } else {
-        link.href = `data:text/csv;base64,${request.csvBase64}`;
+      const response = await fetch(`/api/content-request/${request.id}/csv`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'No content available for download.');
       }
-      
+
+      const url = window.URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
       link.download = request.csvFilename || `content-${request.industry}-${new Date(request.createdAt).toLocaleDateString()}.csv`;
       link.style.display = 'none';
       
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
 
       toast({
         title: "Downloaded",
@@ -114,7 +92,7 @@ export default function History() {
       console.error('Download error:', error);
       toast({
         title: "Download Error", 
-        description: "Failed to download content file. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to download content file. Please try again.",
         variant: "destructive",
       });
     }
@@ -163,10 +141,6 @@ export default function History() {
     try {
       const response = await fetch(`/api/content-request/${requestId}`, {
         method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ userId: user.id }),
       });
 
       if (!response.ok) {
@@ -372,7 +346,6 @@ export default function History() {
                         <Button
                           onClick={() => downloadContent(request)}
                           className="flex-1 bg-[hsl(24,95%,53%)] hover:bg-[hsl(24,95%,47%)] text-white text-sm py-2"
-                          disabled={!request.csvBase64}
                         >
                           <Download className="w-3 h-3 mr-1.5" />
                           Content
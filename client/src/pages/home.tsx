@@ -8,6 +8,8 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Calendar, Trophy, User, LogOut, Sparkles, FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth, logout } from "@/hooks/use-auth";
+import { usePlans, formatPrice } from "@/hooks/use-plans";
 
 interface FormData {
   industry: string;
@@ -15,20 +17,6 @@ interface FormData {
   customTopic: string;
 }
 
-interface User {
-  id: number;
-  name: string;
-  email: string;
-  contentStreak: number;
-  lastContentDate: string | null;
-  subscriptionTier: string;
-  subscriptionStatus: string;
-  subscriptionEndDate: string | null;
-  generationsLimit: number;
-  generationsUsed: number;
-  tags: string[];
-}
-
 const PREDEFINED_TOPICS = [
   {
     id: 'paying_dues',
@@ -65,7 +53,8 @@ const PREDEFINED_TOPICS = [
 export default function Home() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
-  const [user, setUser] = useState<User | null>(null);
+  const { user, isLoading, isTenantOwner } = useAuth();
+  const { plans, findPlan } = usePlans();
   const [formData, setFormData] = useState<FormData>({
     industry: "",
     selectedTopics: [],
@@ -74,24 +63,13 @@ export default function Home() {
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   useEffect(() => {
-    // Check for user in localStorage
-    const storedUser = localStorage.getItem("xauti_user");
-    if (storedUser) {
-      try {
-        setUser(JSON.parse(storedUser));
-      } catch (error) {
-        localStorage.removeItem("xauti_user");
-        navigate("/");
-      }
-    } else {
+    if (!isLoading && !user) {
       navigate("/");
     }
-  }, [navigate]);
+  }, [isLoading, user, navigate]);
 
-  const handleSignOut = () => {
-    localStorage.removeItem("xauti_user");
-    // Trigger custom event to notify App component of auth change
-    window.dispatchEvent(new Event('auth-changed'));
+  const handleSignOut = async () => {
+    await logout();
     navigate("/");
   };
 
@@ -154,8 +132,7 @@ export default function Home() {
     // Navigate to generate page with URL parameters (more reliable)
     const params = new URLSearchParams({
       industry: formData.industry,
-      topics: allTopics.join(','),
-      userId: user?.id?.toString() || '0'
+      topics: allTopics.join(',')
     });
 
     navigate(`/generate?${params.toString()}`);
@@ -169,9 +146,14 @@ export default function Home() {
   const hasValidSubscription = user.subscriptionTier && user.subscriptionTier !== 'free' && 
     user.subscriptionStatus === 'active' && user.tags && user.tags.length > 0;
 
+  const currentPlan = findPlan(user.subscriptionTier);
+  const isUnlimited = !!currentPlan?.features.unlimited;
+  const contentPrice = currentPlan?.creditPrices.content ?? null;
+
   // Check if user has generations remaining
-  const hasGenerationsLeft = user.subscriptionTier === 'unlimited' || 
-    (user.generationsLimit && user.generationsUsed < user.generationsLimit);
+  const hasGenerationsLeft = isUnlimited || 
+    (user.generationsLimit && user.generationsUsed < user.generationsLimit) ||
+    (user.purchasedGenerations || 0) > 0;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
@@ -212,11 +194,11 @@ export default function Home() {
                     Upgrade Plan
                   </a>
                 </Button>
-                <Button asChild variant="outline" className="flex-1">
-                  <a href="https://xautimarketingai.com/" target="_blank" rel="noopener noreferrer">
-                    Buy More Generations ($7)
-                  </a>
-                </Button>
+                {contentPrice !== null && (
+                  <Button variant="outline" className="flex-1" onClick={() => navigate('/settings')}>
+                    Buy More Generations ({formatPrice(contentPrice)})
+                  </Button>
+                )}
               </div>
               </div>
             </AlertDescription>
@@ -258,19 +240,19 @@ export default function Home() {
                   <div className="flex items-center space-x-2 mb-1">
                     <Sparkles className="h-5 w-5 text-green-500" />
                     <span className="text-xl font-bold text-gray-900">
-                      {user.subscriptionTier === 'unlimited' ? '∞' : Math.max(0, (user.generationsLimit || 0) - (user.generationsUsed || 0))}
+                      {isUnlimited ? '∞' : Math.max(0, (user.generationsLimit || 0) - (user.generationsUsed || 0)) + (user.purchasedGenerations || 0)}
                     </span>
                   </div>
                   <p className="text-sm text-gray-600">
-                    {user.subscriptionTier === 'unlimited' ? 'Unlimited' : 'Left This Month'}
+                    {isUnlimited ? 'Unlimited' : user.purchasedGenerations ? `Available (${user.purchasedGenerations} purchased)` : 'Left This Month'}
                   </p>
                 </div>
-                {user.subscriptionEndDate && (
+                {(user.currentPeriodEnd || user.subscriptionEndDate) && (
                   <div className="text-center">
                     <div className="flex items-center space-x-2 mb-1">
                       <Calendar className="h-5 w-5 text-purple-500" />
                       <span className="text-sm font-semibold text-gray-900">
-                        {new Date(user.subscriptionEndDate).toLocaleDateString()}
+                        {new Date((user.currentPeriodEnd || user.subscriptionEndDate)!).toLocaleDateString()}
                       </span>
                     </div>
                     <p className="text-sm text-gray-600">Plan Renews</p>
@@ -294,6 +276,15 @@ export default function Home() {
                 >
                   Settings
                 </Button>
+                {isTenantOwner && (
+                  <Button
+                    variant="outline"
+                    onClick={() => navigate("/tenant-admin")}
+                    size="sm"
+                  >
+                    Manage Platform
+                  </Button>
+                )}
                 <Button variant="outline" onClick={handleSignOut} size="sm">
                   <LogOut className="h-4 w-4 mr-2" />
                   Sign Out
@@ -395,20 +386,23 @@ export default function Home() {
               </div>
               <div className="flex items-start gap-2">
                 <div className="w-2 h-2 bg-blue-600 rounded-full mt-2 flex-shrink-0"></div>
-                <p><strong>Script Generation:</strong> Creating 30-day video scripts uses 1 generation (Pro+ only)</p>
+                <p><strong>Script Generation:</strong> Creating 30-day video scripts uses 1 script generation</p>
               </div>
               <div className="flex items-start gap-2">
                 <div className="w-2 h-2 bg-blue-600 rounded-full mt-2 flex-shrink-0"></div>
                 <p><strong>Subscription Tiers:</strong></p>
               </div>
               <div className="ml-4 space-y-1 text-xs">
-                <p>• Basic ($3): 2 generations per month</p>
-                <p>• Pro ($27): 10 generations per month + script access</p>
-                <p>• Unlimited ($99+): Unlimited generations + script access</p>
+                {plans.filter(plan => plan.price > 0).map(plan => (
+                  <p key={plan.tier}>
+                    • {plan.name} ({formatPrice(plan.price)}): {plan.features.unlimited ? 'Unlimited generations' : `${plan.generationsLimit} generations per month`}
+                    {plan.scriptGenerationsLimit > 0 && ' + script access'}
+                  </p>
+                ))}
               </div>
               <div className="flex items-start gap-2 mt-3">
                 <div className="w-2 h-2 bg-blue-600 rounded-full mt-2 flex-shrink-0"></div>
-                <p><strong>Need More?</strong> Click "Settings" in your dashboard to purchase additional generations ($7 for content, $10/$7 for scripts based on tier) or upgrade your plan</p>
+                <p><strong>Need More?</strong> Click "Settings" in your dashboard to purchase additional generations (prices depend on your plan) or upgrade your plan</p>
               </div>
             </div>
           </CardContent>
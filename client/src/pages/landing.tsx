@@ -5,6 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { refreshAuth } from "@/hooks/use-auth";
 
 export default function Landing() {
   const [, navigate] = useLocation();
@@ -60,17 +61,15 @@ export default function Landing() {
         body: JSON.stringify(formData),
         headers: {
           "Content-Type": "application/json"
-        }
+        },
+        credentials: "include"
       });
 
       const data = await response.json();
       
       if (data.user) {
-        // Store user in localStorage
-        localStorage.setItem("xauti_user", JSON.stringify(data.user));
-        
-        // Trigger custom event to notify App component of auth change
-        window.dispatchEvent(new Event('auth-changed'));
+        // Session cookie is set by the server - reload the signed-in user
+        await refreshAuth();
         
         toast({
           title: "Welcome!",
@@ -78,6 +77,13 @@ export default function Landing() {
         });
         
         navigate("/home");
+      } else if (data.needsPasswordSetup) {
+        toast({
+          title: "Password Required",
+          description: "Check your email for an invitation link, or request a new one below.",
+          variant: "destructive"
+        });
+        navigate("/reset-password");
       } else if (data.needsUpgrade || response.status === 403) {
         // Handle subscription requirement
         setSubscriptionError(true);
@@ -179,6 +185,12 @@ export default function Landing() {
               >
                 {isLoading ? "Signing In..." : "Start Your Content Streak"}
               </Button>
+
+              <div className="text-center">
+                <Button type="button" variant="link" size="sm" onClick={() => navigate("/reset-password")}>
+                  Forgot your password?
+                </Button>
+              </div>
             </form>
           </CardContent>
         </Card>
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+
+export default function ResetPassword() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [isLoading, setIsLoading] = useState(false);
+  const [emailSent, setEmailSent] = useState(false);
+  const [email, setEmail] = useState("");
+  const [formData, setFormData] = useState({
+    newPassword: "",
+    confirmPassword: ""
+  });
+
+  // Invitation and reset links both arrive with ?token=
+  const token = new URLSearchParams(window.location.search).get('token');
+
+  const handleRequestReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim() || !email.includes("@")) {
+      toast({
+        title: "Invalid Email",
+        description: "Please enter a valid email address.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/request-reset", {
+        method: "POST",
+        body: JSON.stringify({ email }),
+        headers: {
+          "Content-Type": "application/json"
+        }
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setEmailSent(true);
+      } else {
+        toast({
+          title: "Request Failed",
+          description: data.error || "Unable to send reset link. Please try again.",
+          variant: "destructive"
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: "Request Failed",
+        description: "Unable to send reset link. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCompleteReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.newPassword !== formData.confirmPassword) {
+      toast({
+        title: "Password Mismatch",
+        description: "New password and confirmation do not match.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (formData.newPassword.length < 6) {
+      toast({
+        title: "Password Too Short",
+        description: "New password must be at least 6 characters long.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const response = await fetch("/api/auth/complete-reset", {
+        method: "POST",
+        body: JSON.stringify({
+          token,
+          newPassword: formData.newPassword
+        }),
+        headers: {
+          "Content-Type": "application/json"
+        }
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        toast({
+          title: "Password Set",
+          description: "Your password has been saved. Please sign in.",
+        });
+        navigate("/");
+      } else {
+        toast({
+          title: "Password Reset Failed",
+          description: data.error || "Unable to reset password. Please try again.",
+          variant: "destructive"
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: "Password Reset Failed",
+        description: "Unable to reset password. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card className="shadow-lg">
+          {token ? (
+            <>
+              <CardHeader>
+                <CardTitle>Set Your Password</CardTitle>
+                <CardDescription>
+                  Choose a password for your content generator account
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleCompleteReset} className="space-y-4">
+                  <div>
+                    <Label htmlFor="newPassword">New Password</Label>
+                    <Input
+                      id="newPassword"
+                      type="password"
+                      placeholder="Enter your new password (min 6 characters)"
+                      value={formData.newPassword}
+                      onChange={(e) => setFormData(prev => ({...prev, newPassword: e.target.value}))}
+                      disabled={isLoading}
+                    />
+                  </div>
+
+                  <div>
+                    <Label htmlFor="confirmPassword">Confirm New Password</Label>
+                    <Input
+                      id="confirmPassword"
+                      type="password"
+                      placeholder="Confirm your new password"
+                      value={formData.confirmPassword}
+                      onChange={(e) => setFormData(prev => ({...prev, confirmPassword: e.target.value}))}
+                      disabled={isLoading}
+                    />
+                  </div>
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={isLoading}
+                  >
+                    {isLoading ? "Saving..." : "Save Password"}
+                  </Button>
+                </form>
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle>Reset Password</CardTitle>
+                <CardDescription>
+                  Enter your email and we'll send you a link to set a new password
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {emailSent ? (
+                  <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                    <p className="text-green-800 text-sm">
+                      If an account exists for {email}, a reset link is on its way. The link expires in 1 hour.
+                    </p>
+                  </div>
+                ) : (
+                  <form onSubmit={handleRequestReset} className="space-y-4">
+                    <div>
+                      <Label htmlFor="email">Email</Label>
+                      <Input
+                        id="email"
+                        type="email"
+                        placeholder="your@email.com"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        disabled={isLoading}
+                      />
+                    </div>
+
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={isLoading}
+                    >
+                      {isLoading ? "Sending..." : "Send Reset Link"}
+                    </Button>
+                  </form>
+                )}
+              </CardContent>
+            </>
+          )}
+        </Card>
+
+        <div className="text-center mt-6">
+          <Button variant="link" onClick={() => navigate("/")}>
+            Back to Sign In
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,14 +7,37 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, CreditCard, Plus, Video } from "lucide-react";
+import { useAuth, AUTH_QUERY_KEY, type AuthUser } from "@/hooks/use-auth";
+import { usePlans, formatPrice } from "@/hooks/use-plans";
+import { queryClient } from "@/lib/queryClient";
+import { ArrowLeft, CreditCard, ExternalLink, History, Plus, Video } from "lucide-react";
 import { useLocation } from "wouter";
 
+interface CreditLedgerEntry {
+  id: number;
+  creditType: "content" | "script";
+  pool: "allowance" | "purchased";
+  entryType: "grant" | "purchase" | "consumption" | "refund" | "adjustment";
+  amount: number;
+  reason: string;
+  actorType: "system" | "user" | "admin" | "stripe";
+  createdAt: string;
+}
+
+const ENTRY_TYPE_LABELS: Record<CreditLedgerEntry["entryType"], string> = {
+  grant: "Monthly allowance",
+  purchase: "Purchase",
+  consumption: "Used",
+  refund: "Refund",
+  adjustment: "Adjustment",
+};
+
 export default function Settings() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [isPurchasing, setIsPurchasing] = useState(false);
+  const [billingAction, setBillingAction] = useState<string | null>(null);
   const [quantity, setQuantity] = useState("1");
   const [scriptQuantity, setScriptQuantity] = useState("1");
   const [formData, setFormData] = useState({
@@ -22,7 +46,34 @@ export default function Settings() {
     confirmPassword: ""
   });
 
-  const currentUser = JSON.parse(localStorage.getItem("xauti_user") || "{}");
+  const { user } = useAuth();
+  const currentUser = user ?? ({} as Partial<AuthUser>);
+  const { plans, findPlan } = usePlans();
+  const currentPlan = findPlan(currentUser.subscriptionTier);
+  const isUnlimited = !!currentPlan?.features.unlimited;
+  const contentPrice = currentPlan?.creditPrices.content ?? null;
+  const scriptPrice = currentPlan?.creditPrices.script ?? null;
+
+  const { data: ledger } = useQuery<{ entries: CreditLedgerEntry[] }>({
+    queryKey: ["/api/credits/ledger"],
+  });
+
+  // Confirm the result of a subscription checkout redirect
+  React.useEffect(() => {
+    const result = new URLSearchParams(window.location.search).get('subscription');
+    if (result === 'success') {
+      toast({
+        title: "Subscription Started",
+        description: "Thanks for subscribing! Your plan will update in a moment.",
+      });
+      queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+    } else if (result === 'cancelled') {
+      toast({
+        title: "Checkout Cancelled",
+        description: "No changes were made to your subscription.",
+      });
+    }
+  }, []);
 
   // Test Stripe configuration on component mount
   React.useEffect(() => {
@@ -70,7 +121,6 @@ export default function Settings() {
       const response = await fetch("/api/auth/change-password", {
         method: "POST",
         body: JSON.stringify({
-          email: currentUser.email,
           currentPassword: formData.currentPassword,
           newPassword: formData.newPassword
         }),
@@ -111,6 +161,39 @@ export default function Settings() {
     }
   };
 
+  // Subscription checkout and the Customer Portal both redirect to Stripe-hosted pages
+  const openBillingPage = async (endpoint: string, action: string, body?: object) => {
+    setBillingAction(action);
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(body || {})
+      });
+
+      const data = await response.json();
+      if (response.ok && data.url) {
+        window.location.href = data.url;
+        return;
+      }
+
+      toast({
+        title: "Billing Unavailable",
+        description: data.error || "Unable to open billing. Please try again.",
+        variant: "destructive"
+      });
+    } catch (error: any) {
+      toast({
+        title: "Billing Unavailable",
+        description: "Unable to open billing. Please try again.",
+        variant: "destructive"
+      });
+    }
+    setBillingAction(null);
+  };
+
   const handlePurchaseGenerations = async () => {
     if (!quantity || parseInt(quantity) < 1) {
       toast({
@@ -133,7 +216,6 @@ export default function Settings() {
           "Content-Type": "application/json"
         },
         body: JSON.stringify({
-          userId: currentUser.id,
           generationCount: generationCount
         })
       });
@@ -218,11 +300,10 @@ export default function Settings() {
       return;
     }
 
-    const tier = currentUser.subscriptionTier || 'free';
-    if (tier === 'free') {
+    if (scriptPrice === null) {
       toast({
         title: "Subscription Required",
-        description: "You need at least a Basic subscription to purchase script generations.",
+        description: "Script generations can't be purchased on your current plan.",
         variant: "destructive"
       });
       return;
@@ -232,9 +313,6 @@ export default function Settings() {
     
     try {
       const scriptCount = parseInt(scriptQuantity);
-      // $10 for Basic users, $7 for Pro+ users
-      const pricePerScript = tier === 'basic' ? 10 : 7;
-      const amount = scriptCount * pricePerScript;
       
       const response = await fetch("/api/purchase-script-generations", {
         method: "POST",
@@ -242,7 +320,6 @@ export default function Settings() {
           "Content-Type": "application/json"
         },
         body: JSON.stringify({
-          userId: currentUser.id,
           scriptCount: scriptCount
         })
       });
@@ -373,6 +450,74 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CreditCard className="w-5 h-5" />
+              Subscription
+            </CardTitle>
+            <CardDescription>
+              {currentUser.stripeSubscriptionId
+                ? "Update your payment method, change plans or cancel in the billing portal"
+                : "Choose a monthly plan"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {currentUser.stripeSubscriptionId && (
+              <div className="bg-blue-50 border border-blue-200 rounded p-4">
+                <p className="text-sm font-medium text-blue-900 capitalize">
+                  {currentUser.subscriptionTier} plan - {currentUser.subscriptionStatus === 'past_due' ? 'payment failed' : currentUser.subscriptionStatus}
+                </p>
+                {currentUser.subscriptionEndDate && (
+                  <p className="text-xs text-blue-700 mt-1">
+                    {currentUser.subscriptionStatus === 'canceled' ? 'Ends' : 'Renews'} on {new Date(currentUser.subscriptionEndDate).toLocaleDateString()}
+                  </p>
+                )}
+                {currentUser.subscriptionStatus === 'past_due' && (
+                  <p className="text-xs text-red-700 mt-1">
+                    Your last payment failed. Update your payment method to keep your plan.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {!currentUser.stripeSubscriptionId && (
+              <div className="grid gap-3 sm:grid-cols-3">
+                {plans.filter(plan => plan.features.checkout).map(plan => (
+                  <div key={plan.tier} className="border rounded p-3 flex flex-col">
+                    <h4 className="font-medium text-gray-900">{plan.name}</h4>
+                    <p className="text-lg font-bold text-gray-900">{formatPrice(plan.price)}<span className="text-sm font-normal text-gray-500">/mo</span></p>
+                    <p className="text-xs text-gray-600 mb-3 flex-1">
+                      {plan.features.unlimited ? "Unlimited content generations" : `${plan.generationsLimit} content generations / month`}
+                      {!plan.features.unlimited && plan.scriptGenerationsLimit > 0 && `, ${plan.scriptGenerationsLimit} script generations`}
+                    </p>
+                    <Button
+                      size="sm"
+                      variant={currentUser.subscriptionTier === plan.tier ? "outline" : "default"}
+                      onClick={() => openBillingPage("/api/subscription/checkout", plan.tier, { tier: plan.tier })}
+                      disabled={billingAction !== null}
+                    >
+                      {billingAction === plan.tier ? "Redirecting..." : "Subscribe"}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {currentUser.stripeCustomerId && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => openBillingPage("/api/subscription/portal", "portal")}
+                disabled={billingAction !== null}
+              >
+                <ExternalLink className="w-4 h-4 mr-2" />
+                {billingAction === "portal" ? "Opening Billing Portal..." : "Manage Billing"}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
         <Card className="mt-6">
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
@@ -380,7 +525,7 @@ export default function Settings() {
               Purchase Additional Generations
             </CardTitle>
             <CardDescription>
-              Buy extra generations to extend your monthly limit
+              Buy extra generations on top of your monthly allowance - purchased generations never expire
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -389,19 +534,27 @@ export default function Settings() {
                 <span className="text-sm font-medium text-blue-900">Current Balance</span>
                 <div className="text-right">
                   <div className="text-lg font-bold text-blue-900">
-                    {currentUser.subscriptionTier === 'unlimited' ? '∞' : Math.max(0, (currentUser.generationsLimit || 0) - (currentUser.generationsUsed || 0))} content
+                    {isUnlimited ? '∞' : Math.max(0, (currentUser.generationsLimit || 0) - (currentUser.generationsUsed || 0)) + (currentUser.purchasedGenerations || 0)} content
                   </div>
                   <div className="text-lg font-bold text-purple-900">
-                    {currentUser.subscriptionTier === 'unlimited' ? '∞' : Math.max(0, (currentUser.scriptGenerationsLimit || 0) - (currentUser.scriptGenerationsUsed || 0))} script
+                    {isUnlimited ? '∞' : Math.max(0, (currentUser.scriptGenerationsLimit || 0) - (currentUser.scriptGenerationsUsed || 0)) + (currentUser.purchasedScriptGenerations || 0)} script
                   </div>
                 </div>
               </div>
               <p className="text-xs text-blue-700">
-                Subscription: {currentUser.subscriptionTier || 'Free'} ({currentUser.generationsLimit || 0} content + {currentUser.scriptGenerationsLimit || 0} script generations)
+                Subscription: {currentPlan?.name || currentUser.subscriptionTier || 'Free'} ({currentUser.generationsLimit || 0} content + {currentUser.scriptGenerationsLimit || 0} script generations per month)
               </p>
+              <p className="text-xs text-blue-700">
+                Purchased: {currentUser.purchasedGenerations || 0} content + {currentUser.purchasedScriptGenerations || 0} script (carry over month to month)
+              </p>
+              {currentUser.currentPeriodEnd && (
+                <p className="text-xs text-blue-700">
+                  Monthly allowance resets on {new Date(currentUser.currentPeriodEnd).toLocaleDateString()}
+                </p>
+              )}
             </div>
 
-            {currentUser.subscriptionTier !== 'unlimited' && (
+            {!isUnlimited && (
               <Tabs defaultValue="content" className="w-full">
                 <TabsList className="grid w-full grid-cols-2">
                   <TabsTrigger value="content">Content Generations</TabsTrigger>
@@ -409,50 +562,60 @@ export default function Settings() {
                 </TabsList>
                 
                 <TabsContent value="content" className="space-y-4">
-                  <div className="bg-green-50 border border-green-200 rounded p-3">
-                    <h4 className="font-medium text-green-900 mb-1">Content Generations</h4>
-                    <p className="text-sm text-green-800">
-                      Generate 30-day content calendars - $7 per generation for all tiers
-                    </p>
-                  </div>
+                  {contentPrice === null ? (
+                    <div className="bg-orange-50 border border-orange-200 rounded p-3">
+                      <p className="text-sm text-orange-800">
+                        <strong>Content generations can't be purchased on your current plan.</strong>
+                      </p>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="bg-green-50 border border-green-200 rounded p-3">
+                        <h4 className="font-medium text-green-900 mb-1">Content Generations</h4>
+                        <p className="text-sm text-green-800">
+                          Generate 30-day content calendars - {formatPrice(contentPrice)} per generation
+                        </p>
+                      </div>
                   
-                  <div>
-                    <Label htmlFor="quantity">Quantity</Label>
-                    <Select value={quantity} onValueChange={setQuantity}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select quantity" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {[...Array(10)].map((_, i) => (
-                          <SelectItem key={i + 1} value={(i + 1).toString()}>
-                            {i + 1} generation{i > 0 ? 's' : ''} - ${(i + 1) * 7}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
+                      <div>
+                        <Label htmlFor="quantity">Quantity</Label>
+                        <Select value={quantity} onValueChange={setQuantity}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select quantity" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {[...Array(10)].map((_, i) => (
+                              <SelectItem key={i + 1} value={(i + 1).toString()}>
+                                {i + 1} generation{i > 0 ? 's' : ''} - {formatPrice((i + 1) * contentPrice)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
                   
-                  <div className="bg-gray-50 border border-gray-200 rounded p-3">
-                    <p className="text-sm text-gray-800">
-                      <strong>Total: ${parseInt(quantity) * 7}</strong> for {quantity} content generation{parseInt(quantity) > 1 ? 's' : ''}
-                    </p>
-                  </div>
+                      <div className="bg-gray-50 border border-gray-200 rounded p-3">
+                        <p className="text-sm text-gray-800">
+                          <strong>Total: {formatPrice(parseInt(quantity) * contentPrice)}</strong> for {quantity} content generation{parseInt(quantity) > 1 ? 's' : ''}
+                        </p>
+                      </div>
                   
-                  <Button 
-                    onClick={handlePurchaseGenerations}
-                    className="w-full"
-                    disabled={isPurchasing}
-                  >
-                    <Plus className="w-4 h-4 mr-2" />
-                    {isPurchasing ? "Processing Payment..." : `Purchase ${quantity} Content Generation${parseInt(quantity) > 1 ? 's' : ''}`}
-                  </Button>
+                      <Button 
+                        onClick={handlePurchaseGenerations}
+                        className="w-full"
+                        disabled={isPurchasing}
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        {isPurchasing ? "Processing Payment..." : `Purchase ${quantity} Content Generation${parseInt(quantity) > 1 ? 's' : ''}`}
+                      </Button>
+                    </>
+                  )}
                 </TabsContent>
                 
                 <TabsContent value="scripts" className="space-y-4">
-                  {currentUser.subscriptionTier === 'free' ? (
+                  {scriptPrice === null ? (
                     <div className="bg-orange-50 border border-orange-200 rounded p-3">
                       <p className="text-sm text-orange-800">
-                        <strong>Script generations require at least a Basic ($3) subscription.</strong> 
+                        <strong>Script generations can't be purchased on your current plan.</strong> 
                         <br />Upgrade your plan to access script purchases.
                       </p>
                     </div>
@@ -464,7 +627,7 @@ export default function Settings() {
                           Generate 30-day video scripts for text-to-speech
                           <br />
                           <strong>
-                            {currentUser.subscriptionTier === 'basic' ? '$10 per script generation (Basic tier)' : '$7 per script generation (Pro+ tier)'}
+                            {formatPrice(scriptPrice)} per script generation ({currentPlan?.name} plan)
                           </strong>
                         </p>
                       </div>
@@ -476,21 +639,18 @@ export default function Settings() {
                             <SelectValue placeholder="Select quantity" />
                           </SelectTrigger>
                           <SelectContent>
-                            {[...Array(10)].map((_, i) => {
-                              const price = currentUser.subscriptionTier === 'basic' ? 10 : 7;
-                              return (
-                                <SelectItem key={i + 1} value={(i + 1).toString()}>
-                                  {i + 1} script generation{i > 0 ? 's' : ''} - ${(i + 1) * price}
-                                </SelectItem>
-                              );
-                            })}
+                            {[...Array(10)].map((_, i) => (
+                              <SelectItem key={i + 1} value={(i + 1).toString()}>
+                                {i + 1} script generation{i > 0 ? 's' : ''} - {formatPrice((i + 1) * scriptPrice)}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
                       
                       <div className="bg-gray-50 border border-gray-200 rounded p-3">
                         <p className="text-sm text-gray-800">
-                          <strong>Total: ${parseInt(scriptQuantity) * (currentUser.subscriptionTier === 'basic' ? 10 : 7)}</strong> for {scriptQuantity} script generation{parseInt(scriptQuantity) > 1 ? 's' : ''}
+                          <strong>Total: {formatPrice(parseInt(scriptQuantity) * scriptPrice)}</strong> for {scriptQuantity} script generation{parseInt(scriptQuantity) > 1 ? 's' : ''}
                         </p>
                       </div>
                       
@@ -508,7 +668,7 @@ export default function Settings() {
               </Tabs>
             )}
 
-            {currentUser.subscriptionTier === 'unlimited' && (
+            {isUnlimited && (
               <div className="bg-purple-50 border border-purple-200 rounded p-3">
                 <p className="text-sm text-purple-800">
                   You have unlimited generations! No need to purchase additional ones.
@@ -518,6 +678,41 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Credit History
+            </CardTitle>
+            <CardDescription>
+              Every allowance, purchase, generation and adjustment on your account
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!ledger?.entries.length ? (
+              <p className="text-sm text-gray-500">No credit activity yet.</p>
+            ) : (
+              <div className="max-h-80 overflow-y-auto divide-y">
+                {ledger.entries.map(entry => (
+                  <div key={entry.id} className="flex items-center justify-between py-2">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {ENTRY_TYPE_LABELS[entry.entryType]} · {entry.creditType}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(entry.createdAt).toLocaleDateString()} - {entry.reason}
+                      </p>
+                    </div>
+                    <span className={`text-sm font-semibold ${entry.amount > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                      {entry.amount > 0 ? '+' : ''}{entry.amount}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         <Card className="mt-6">
           <CardHeader>
             <CardTitle>Account Information</CardTitle>
@@ -0,0 +1,841 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { PLANS_QUERY_KEY, type Plan } from "@/hooks/use-plans";
+import { TagRulesEditor } from "@/components/tag-rules-editor";
+import { ArrowLeft } from "lucide-react";
+
+interface BrandingConfig {
+  companyName?: string;
+  logo?: string;
+  primaryColor?: string;
+  secondaryColor?: string;
+  emailFromName?: string;
+}
+
+interface TenantKeysSummary {
+  n8nWebhookUrl: string | null;
+  hasN8nApiKey: boolean;
+  n8nApiKey: string | null;
+  hasN8nCallbackSecret: boolean;
+  n8nCallbackSecret: string | null;
+  stripePublicKey: string | null;
+  hasStripeSecretKey: boolean;
+  stripeSecretKey: string | null;
+  hasStripeWebhookSecret: boolean;
+  stripeWebhookSecret: string | null;
+  hasOpenaiApiKey: boolean;
+  openaiApiKey: string | null;
+  hasHighlevelWebhookSecret: boolean;
+  highlevelWebhookSecret: string | null;
+  contentGenerator: "n8n" | "native";
+  openaiPolicy: "platform_fallback" | "tenant_only";
+  stripePolicy: "platform_fallback" | "tenant_only";
+}
+
+interface TenantOverview {
+  tenant: {
+    id: number;
+    name: string;
+    domain: string | null;
+    subdomain: string;
+    isActive: boolean;
+    plan: string;
+    brandingConfig: BrandingConfig;
+    keys: TenantKeysSummary;
+  };
+  usage: {
+    totalUsers: number;
+    activeSubscribers: number;
+    generationsUsed: number;
+    contentRequests: { total: number; completed: number; processing: number; failed: number };
+    revenue: number;
+  };
+}
+
+interface TenantUser {
+  id: number;
+  name: string;
+  email: string;
+  subscriptionTier: string;
+  subscriptionStatus: string;
+  generationsUsed: number;
+  createdAt: string;
+}
+
+interface TenantContentRequest {
+  id: number;
+  userId: number;
+  industry: string;
+  status: string;
+  createdAt: string;
+}
+
+interface TenantPurchase {
+  id: number;
+  userId: number;
+  generationsAdded: number;
+  amountPaid: number;
+  paymentStatus: string;
+  createdAt: string;
+}
+
+// Plan fields as typed into the form; dollar amounts are converted to cents on save
+interface PlanDraft {
+  tier: string;
+  name: string;
+  price: string;
+  generationsLimit: string;
+  scriptGenerationsLimit: string;
+  contentPrice: string;
+  scriptPrice: string;
+  checkout: boolean;
+  unlimited: boolean;
+  stripePriceId: string;
+}
+
+const toDollars = (cents: number | null) => cents === null ? "" : (cents / 100).toString();
+const toCents = (dollars: string) => dollars.trim() === "" ? null : Math.round(parseFloat(dollars) * 100);
+
+function toPlanDraft(plan: Plan): PlanDraft {
+  return {
+    tier: plan.tier,
+    name: plan.name,
+    price: toDollars(plan.price),
+    generationsLimit: plan.generationsLimit.toString(),
+    scriptGenerationsLimit: plan.scriptGenerationsLimit.toString(),
+    contentPrice: toDollars(plan.creditPrices.content),
+    scriptPrice: toDollars(plan.creditPrices.script),
+    checkout: plan.features.checkout,
+    unlimited: plan.features.unlimited,
+    stripePriceId: plan.stripePriceId ?? "",
+  };
+}
+
+function fromPlanDraft(draft: PlanDraft): Plan {
+  return {
+    tier: draft.tier,
+    name: draft.name,
+    price: toCents(draft.price) ?? 0,
+    generationsLimit: parseInt(draft.generationsLimit) || 0,
+    scriptGenerationsLimit: parseInt(draft.scriptGenerationsLimit) || 0,
+    creditPrices: { content: toCents(draft.contentPrice), script: toCents(draft.scriptPrice) },
+    features: { checkout: draft.checkout, unlimited: draft.unlimited },
+    ...(draft.stripePriceId.trim() && { stripePriceId: draft.stripePriceId.trim() }),
+  };
+}
+
+const EMPTY_KEYS = {
+  n8nWebhookUrl: "",
+  n8nApiKey: "",
+  n8nCallbackSecret: "",
+  stripePublicKey: "",
+  stripeSecretKey: "",
+  stripeWebhookSecret: "",
+  openaiApiKey: "",
+  highlevelWebhookSecret: "",
+  contentGenerator: ""
+};
+
+export default function TenantAdmin() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [activeTab, setActiveTab] = useState("overview");
+  const [branding, setBranding] = useState<BrandingConfig>({});
+  const [keys, setKeys] = useState(EMPTY_KEYS);
+  const [planDrafts, setPlanDrafts] = useState<PlanDraft[]>([]);
+  const [newTier, setNewTier] = useState("");
+
+  const { data: overview, isLoading: overviewLoading } = useQuery<TenantOverview>({
+    queryKey: ["/api/tenant-admin/overview"],
+  });
+
+  const { data: usersData } = useQuery<{ users: TenantUser[] }>({
+    queryKey: ["/api/tenant-admin/users"],
+  });
+
+  const { data: requestsData } = useQuery<{ contentRequests: TenantContentRequest[] }>({
+    queryKey: ["/api/tenant-admin/content-requests"],
+  });
+
+  const { data: purchasesData } = useQuery<{ purchases: TenantPurchase[] }>({
+    queryKey: ["/api/tenant-admin/purchases"],
+  });
+
+  const { data: plansData } = useQuery<{ plans: Plan[]; isCustom: boolean }>({
+    queryKey: ["/api/tenant-admin/plans"],
+  });
+
+  useEffect(() => {
+    if (overview) {
+      setBranding(overview.tenant.brandingConfig || {});
+    }
+  }, [overview]);
+
+  useEffect(() => {
+    if (plansData) {
+      setPlanDrafts(plansData.plans.map(toPlanDraft));
+    }
+  }, [plansData]);
+
+  const updatePlanDraft = (tier: string, changes: Partial<PlanDraft>) => {
+    setPlanDrafts(drafts => drafts.map(draft => draft.tier === tier ? { ...draft, ...changes } : draft));
+  };
+
+  const updateUserMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: number; updates: Partial<TenantUser> }) => {
+      const response = await apiRequest("PATCH", `/api/tenant-admin/users/${id}`, updates);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "User Updated", description: "The user's plan access has been updated." });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenant-admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenant-admin/overview"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update user", variant: "destructive" });
+    },
+  });
+
+  const deleteRequestMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/tenant-admin/content-requests/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Deleted", description: "Content request removed." });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenant-admin/content-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenant-admin/overview"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete request", variant: "destructive" });
+    },
+  });
+
+  const saveBrandingMutation = useMutation({
+    mutationFn: async (config: BrandingConfig) => {
+      const response = await apiRequest("PUT", "/api/tenant-admin/branding", config);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Branding Saved", description: "Your platform branding has been updated." });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenant-admin/overview"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save branding", variant: "destructive" });
+    },
+  });
+
+  const rotateKeysMutation = useMutation({
+    mutationFn: async (newKeys: typeof EMPTY_KEYS) => {
+      // Only send the keys that were filled in - blank fields keep the current value
+      const changedKeys = Object.fromEntries(
+        Object.entries(newKeys).filter(([, value]) => value.trim() !== "")
+      );
+      const response = await apiRequest("PUT", "/api/tenant-admin/keys", changedKeys);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Keys Updated", description: "Your integration keys have been rotated." });
+      setKeys(EMPTY_KEYS);
+      queryClient.invalidateQueries({ queryKey: ["/api/tenant-admin/overview"] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to update keys", variant: "destructive" });
+    },
+  });
+
+  const savePlansMutation = useMutation({
+    // null resets the catalog to the platform defaults
+    mutationFn: async (plans: Plan[] | null) => {
+      const response = await apiRequest("PUT", "/api/tenant-admin/plans", { plans });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Plans Saved", description: "Your plan catalog has been updated." });
+      queryClient.invalidateQueries({ queryKey: ["/api/tenant-admin/plans"] });
+      queryClient.invalidateQueries({ queryKey: PLANS_QUERY_KEY });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save plans", variant: "destructive" });
+    },
+  });
+
+  if (overviewLoading) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
+  }
+
+  if (!overview) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <p className="text-gray-600">No white label platform is linked to your account.</p>
+      </div>
+    );
+  }
+
+  const { tenant, usage } = overview;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <Button variant="ghost" onClick={() => navigate("/home")} className="mb-4">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Dashboard
+          </Button>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">
+            {tenant.brandingConfig?.companyName || tenant.name} Console
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-2">
+            Manage your platform's users, usage and settings
+          </p>
+        </div>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-8">
+            <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="content">Content</TabsTrigger>
+            <TabsTrigger value="purchases">Purchases</TabsTrigger>
+            <TabsTrigger value="plans">Plans</TabsTrigger>
+            <TabsTrigger value="tags">Tag Rules</TabsTrigger>
+            <TabsTrigger value="branding">Branding</TabsTrigger>
+            <TabsTrigger value="keys">Keys</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview">
+            <div className="grid gap-6 md:grid-cols-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Users</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold text-green-600">{usage.totalUsers}</div>
+                  <p className="text-sm text-gray-500">{usage.activeSubscribers} active subscribers</p>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Generations</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold text-blue-600">{usage.generationsUsed}</div>
+                  <p className="text-sm text-gray-500">used by your customers</p>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Requests</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold text-purple-600">{usage.contentRequests.total}</div>
+                  <p className="text-sm text-gray-500">
+                    {usage.contentRequests.completed} completed, {usage.contentRequests.failed} failed
+                  </p>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Revenue</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-3xl font-bold text-orange-600">
+                    ${(usage.revenue / 100).toLocaleString()}
+                  </div>
+                  <p className="text-sm text-gray-500">from generation purchases</p>
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="users">
+            <Card>
+              <CardHeader>
+                <CardTitle>Customers</CardTitle>
+                <CardDescription>Users who signed up on your platform</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!usersData?.users.length ? (
+                  <p className="text-gray-500 text-center py-8">No users yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {usersData.users.map((user) => (
+                      <div key={user.id} className="border rounded-lg p-4 flex items-center justify-between gap-4">
+                        <div className="min-w-0">
+                          <h3 className="font-semibold truncate">{user.name}</h3>
+                          <p className="text-sm text-gray-600 truncate">{user.email}</p>
+                          <p className="text-xs text-gray-500">{user.generationsUsed || 0} generations used</p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={user.subscriptionTier || 'free'}
+                            onValueChange={(subscriptionTier) => updateUserMutation.mutate({ id: user.id, updates: { subscriptionTier } })}
+                          >
+                            <SelectTrigger className="w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {plansData?.plans.map((plan) => (
+                                <SelectItem key={plan.tier} value={plan.tier}>{plan.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            size="sm"
+                            variant={user.subscriptionStatus === 'active' ? "outline" : "default"}
+                            onClick={() => updateUserMutation.mutate({
+                              id: user.id,
+                              updates: { subscriptionStatus: user.subscriptionStatus === 'active' ? 'inactive' : 'active' }
+                            })}
+                            disabled={updateUserMutation.isPending}
+                          >
+                            {user.subscriptionStatus === 'active' ? "Deactivate" : "Activate"}
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="content">
+            <Card>
+              <CardHeader>
+                <CardTitle>Content Requests</CardTitle>
+                <CardDescription>Generations run by your customers</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!requestsData?.contentRequests.length ? (
+                  <p className="text-gray-500 text-center py-8">No content requests yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {requestsData.contentRequests.map((request) => (
+                      <div key={request.id} className="border rounded-lg p-4 flex items-center justify-between">
+                        <div>
+                          <h3 className="font-semibold capitalize">{request.industry}</h3>
+                          <p className="text-xs text-gray-500">
+                            User #{request.userId} · {new Date(request.createdAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="capitalize">{request.status}</Badge>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => {
+                              if (confirm("Delete this content request? This cannot be undone.")) {
+                                deleteRequestMutation.mutate(request.id);
+                              }
+                            }}
+                            disabled={deleteRequestMutation.isPending}
+                          >
+                            Delete
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="purchases">
+            <Card>
+              <CardHeader>
+                <CardTitle>Purchases</CardTitle>
+                <CardDescription>Additional generations bought on your platform</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!purchasesData?.purchases.length ? (
+                  <p className="text-gray-500 text-center py-8">No purchases yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {purchasesData.purchases.map((purchase) => (
+                      <div key={purchase.id} className="border rounded-lg p-4 flex items-center justify-between">
+                        <div>
+                          <h3 className="font-semibold">{purchase.generationsAdded} generation{purchase.generationsAdded > 1 ? 's' : ''}</h3>
+                          <p className="text-xs text-gray-500">
+                            User #{purchase.userId} · {new Date(purchase.createdAt).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold">${(purchase.amountPaid / 100).toFixed(2)}</span>
+                          <Badge variant="outline" className="capitalize">{purchase.paymentStatus}</Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="plans">
+            <Card>
+              <CardHeader>
+                <CardTitle>Plans</CardTitle>
+                <CardDescription>
+                  Tiers, monthly allowances and top-up prices for your customers.
+                  {plansData && !plansData.isCustom && " You're using the platform default plans."}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {planDrafts.map((draft) => (
+                  <div key={draft.tier} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-center justify-between gap-4">
+                      <Badge variant="outline" className="font-mono">{draft.tier}</Badge>
+                      {draft.tier !== "free" && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setPlanDrafts(planDrafts.filter(plan => plan.tier !== draft.tier))}
+                        >
+                          Remove
+                        </Button>
+                      )}
+                    </div>
+                    <div className="grid gap-3 md:grid-cols-3">
+                      <div>
+                        <Label>Name</Label>
+                        <Input value={draft.name} onChange={(e) => updatePlanDraft(draft.tier, { name: e.target.value })} />
+                      </div>
+                      <div>
+                        <Label>Monthly Price ($)</Label>
+                        <Input type="number" min="0" step="0.01" value={draft.price} onChange={(e) => updatePlanDraft(draft.tier, { price: e.target.value })} />
+                      </div>
+                      <div className="flex items-end gap-4 pb-2">
+                        <label className="flex items-center gap-2 text-sm">
+                          <Switch checked={draft.checkout} onCheckedChange={(checkout) => updatePlanDraft(draft.tier, { checkout })} />
+                          Sold in app
+                        </label>
+                        <label className="flex items-center gap-2 text-sm">
+                          <Switch checked={draft.unlimited} onCheckedChange={(unlimited) => updatePlanDraft(draft.tier, { unlimited })} />
+                          Unlimited
+                        </label>
+                      </div>
+                      <div>
+                        <Label>Content Generations / Month</Label>
+                        <Input type="number" min="0" value={draft.generationsLimit} onChange={(e) => updatePlanDraft(draft.tier, { generationsLimit: e.target.value })} />
+                      </div>
+                      <div>
+                        <Label>Script Generations / Month</Label>
+                        <Input type="number" min="0" value={draft.scriptGenerationsLimit} onChange={(e) => updatePlanDraft(draft.tier, { scriptGenerationsLimit: e.target.value })} />
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <Label>Extra Content ($)</Label>
+                          <Input type="number" min="0" step="0.01" placeholder="Not sold" value={draft.contentPrice} onChange={(e) => updatePlanDraft(draft.tier, { contentPrice: e.target.value })} />
+                        </div>
+                        <div>
+                          <Label>Extra Script ($)</Label>
+                          <Input type="number" min="0" step="0.01" placeholder="Not sold" value={draft.scriptPrice} onChange={(e) => updatePlanDraft(draft.tier, { scriptPrice: e.target.value })} />
+                        </div>
+                      </div>
+                      <div>
+                        <Label>Stripe Price ID</Label>
+                        <Input placeholder="Optional, e.g. price_123" value={draft.stripePriceId} onChange={(e) => updatePlanDraft(draft.tier, { stripePriceId: e.target.value })} />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+
+                <div className="flex gap-2">
+                  <Input
+                    value={newTier}
+                    onChange={(e) => setNewTier(e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, "_"))}
+                    placeholder="new_tier_key"
+                  />
+                  <Button
+                    variant="outline"
+                    disabled={!newTier || planDrafts.some(plan => plan.tier === newTier)}
+                    onClick={() => {
+                      setPlanDrafts([...planDrafts, {
+                        tier: newTier,
+                        name: newTier,
+                        price: "0",
+                        generationsLimit: "0",
+                        scriptGenerationsLimit: "0",
+                        contentPrice: "",
+                        scriptPrice: "",
+                        checkout: false,
+                        unlimited: false,
+                        stripePriceId: "",
+                      }]);
+                      setNewTier("");
+                    }}
+                  >
+                    Add Plan
+                  </Button>
+                </div>
+              </CardContent>
+              <CardFooter className="flex gap-2">
+                <Button
+                  onClick={() => savePlansMutation.mutate(planDrafts.map(fromPlanDraft))}
+                  disabled={savePlansMutation.isPending}
+                  className="flex-1"
+                >
+                  {savePlansMutation.isPending ? "Saving..." : "Save Plans"}
+                </Button>
+                {plansData?.isCustom && (
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      if (confirm("Replace your plans with the platform defaults?")) {
+                        savePlansMutation.mutate(null);
+                      }
+                    }}
+                    disabled={savePlansMutation.isPending}
+                  >
+                    Reset to Defaults
+                  </Button>
+                )}
+              </CardFooter>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="tags">
+            <TagRulesEditor endpoint="/api/tenant-admin/tag-rules" tiers={plansData?.plans ?? []} />
+          </TabsContent>
+
+          <TabsContent value="branding">
+            <Card>
+              <CardHeader>
+                <CardTitle>Branding</CardTitle>
+                <CardDescription>How your platform looks to your customers</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="companyName">Company Name</Label>
+                  <Input
+                    id="companyName"
+                    value={branding.companyName || ""}
+                    onChange={(e) => setBranding({ ...branding, companyName: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="logo">Logo URL</Label>
+                  <Input
+                    id="logo"
+                    value={branding.logo || ""}
+                    onChange={(e) => setBranding({ ...branding, logo: e.target.value })}
+                    placeholder="https://example.com/logo.png"
+                  />
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div>
+                    <Label htmlFor="primaryColor">Primary Color</Label>
+                    <Input
+                      id="primaryColor"
+                      value={branding.primaryColor || ""}
+                      onChange={(e) => setBranding({ ...branding, primaryColor: e.target.value })}
+                      placeholder="#0066cc"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="secondaryColor">Secondary Color</Label>
+                    <Input
+                      id="secondaryColor"
+                      value={branding.secondaryColor || ""}
+                      onChange={(e) => setBranding({ ...branding, secondaryColor: e.target.value })}
+                      placeholder="#f0f9ff"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="emailFromName">Email Sender Name</Label>
+                  <Input
+                    id="emailFromName"
+                    value={branding.emailFromName || ""}
+                    onChange={(e) => setBranding({ ...branding, emailFromName: e.target.value })}
+                  />
+                </div>
+              </CardContent>
+              <CardFooter>
+                <Button
+                  onClick={() => saveBrandingMutation.mutate(branding)}
+                  disabled={saveBrandingMutation.isPending}
+                  className="w-full"
+                >
+                  {saveBrandingMutation.isPending ? "Saving..." : "Save Branding"}
+                </Button>
+              </CardFooter>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="keys">
+            <Card>
+              <CardHeader>
+                <CardTitle>Integration Keys</CardTitle>
+                <CardDescription>
+                  Enter only the keys you want to replace. Blank fields keep their current value.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-md text-sm space-y-1">
+                  <p>
+                    Content generator: {tenant.keys.contentGenerator === "native" ? "Built-in (OpenAI)" : "n8n workflow"}
+                  </p>
+                  <p>n8n workflow: {tenant.keys.n8nWebhookUrl || "Not configured"}</p>
+                  <p>n8n API key: {tenant.keys.n8nApiKey || "Not configured"}</p>
+                  <p>n8n callback secret: {tenant.keys.n8nCallbackSecret || "Not configured"}</p>
+                  <p>
+                    n8n callback endpoint:{" "}
+                    <span className="font-mono">{window.location.origin}/api/webhook/n8n/{tenant.subdomain}/&lt;requestId&gt;</span>
+                  </p>
+                  <p className="text-gray-500">
+                    Each workflow run receives its own callbackUrl. Post progress, csv, drive_file or error updates there, signed the same way as HighLevel webhooks.
+                    {!tenant.keys.hasN8nCallbackSecret && " Callbacks are rejected until a secret is set."}
+                  </p>
+                  <p>Stripe public key: {tenant.keys.stripePublicKey || "Not configured"}</p>
+                  <p>Stripe secret key: {tenant.keys.stripeSecretKey || "Not configured"}</p>
+                  <p>Stripe webhook secret: {tenant.keys.stripeWebhookSecret || "Not configured"}</p>
+                  <p>
+                    Stripe webhook endpoint:{" "}
+                    <span className="font-mono">{window.location.origin}/api/webhook/stripe/{tenant.subdomain}</span>
+                  </p>
+                  <p>OpenAI API key: {tenant.keys.openaiApiKey || "Not configured"}</p>
+                  <p>HighLevel webhook secret: {tenant.keys.highlevelWebhookSecret || "Not configured"}</p>
+                  <p>
+                    HighLevel webhook endpoint:{" "}
+                    <span className="font-mono">{window.location.origin}/api/webhook/highlevel/{tenant.subdomain}</span>
+                  </p>
+                  <p className="text-gray-500">
+                    Send the secret in an X-Webhook-Secret header, or sign the body with it as X-Webhook-Signature: sha256=&lt;hex HMAC&gt;.
+                    {!tenant.keys.hasHighlevelWebhookSecret && " HighLevel webhooks are rejected until a secret is set."}
+                  </p>
+                  {!tenant.keys.hasStripeSecretKey && (
+                    <p className="text-gray-500">
+                      Without a Stripe key, payments {tenant.keys.stripePolicy === "platform_fallback" ? "use the platform account" : "are disabled"}.
+                    </p>
+                  )}
+                  {!tenant.keys.hasOpenaiApiKey && (
+                    <p className="text-gray-500">
+                      Without an OpenAI key, AI features {tenant.keys.openaiPolicy === "platform_fallback" ? "use the platform account" : "are disabled"}.
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <Label>Content Generator</Label>
+                  <Select value={keys.contentGenerator} onValueChange={(contentGenerator) => setKeys({ ...keys, contentGenerator })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Keep current generator" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="n8n">n8n workflow</SelectItem>
+                      <SelectItem value="native">Built-in (uses your OpenAI key or policy)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="n8nWebhookUrl">n8n Webhook URL</Label>
+                  <Input
+                    id="n8nWebhookUrl"
+                    value={keys.n8nWebhookUrl}
+                    onChange={(e) => setKeys({ ...keys, n8nWebhookUrl: e.target.value })}
+                    placeholder="https://n8n.example.com/webhook/content"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="n8nApiKey">n8n API Key</Label>
+                  <Input
+                    id="n8nApiKey"
+                    type="password"
+                    value={keys.n8nApiKey}
+                    onChange={(e) => setKeys({ ...keys, n8nApiKey: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="n8nCallbackSecret">n8n Callback Secret</Label>
+                  <Input
+                    id="n8nCallbackSecret"
+                    type="password"
+                    value={keys.n8nCallbackSecret}
+                    onChange={(e) => setKeys({ ...keys, n8nCallbackSecret: e.target.value })}
+                    placeholder="At least 16 characters"
+                  />
+                </div>
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div>
+                    <Label htmlFor="stripePublicKey">Stripe Public Key</Label>
+                    <Input
+                      id="stripePublicKey"
+                      value={keys.stripePublicKey}
+                      onChange={(e) => setKeys({ ...keys, stripePublicKey: e.target.value })}
+                      placeholder="pk_live_..."
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="stripeSecretKey">Stripe Secret Key</Label>
+                    <Input
+                      id="stripeSecretKey"
+                      type="password"
+                      value={keys.stripeSecretKey}
+                      onChange={(e) => setKeys({ ...keys, stripeSecretKey: e.target.value })}
+                      placeholder="sk_live_..."
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="stripeWebhookSecret">Stripe Webhook Secret</Label>
+                  <Input
+                    id="stripeWebhookSecret"
+                    type="password"
+                    value={keys.stripeWebhookSecret}
+                    onChange={(e) => setKeys({ ...keys, stripeWebhookSecret: e.target.value })}
+                    placeholder="whsec_..."
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="openaiApiKey">OpenAI API Key</Label>
+                  <Input
+                    id="openaiApiKey"
+                    type="password"
+                    value={keys.openaiApiKey}
+                    onChange={(e) => setKeys({ ...keys, openaiApiKey: e.target.value })}
+                    placeholder="sk-proj-..."
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="highlevelWebhookSecret">HighLevel Webhook Secret</Label>
+                  <Input
+                    id="highlevelWebhookSecret"
+                    type="password"
+                    value={keys.highlevelWebhookSecret}
+                    onChange={(e) => setKeys({ ...keys, highlevelWebhookSecret: e.target.value })}
+                    placeholder="At least 16 characters"
+                  />
+                </div>
+              </CardContent>
+              <CardFooter>
+                <Button
+                  onClick={() => rotateKeysMutation.mutate(keys)}
+                  disabled={rotateKeysMutation.isPending}
+                  className="w-full"
+                >
+                  {rotateKeysMutation.isPending ? "Saving..." : "Save Keys"}
+                </Button>
+              </CardFooter>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
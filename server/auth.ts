@@ -0,0 +1,271 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { scrypt, randomBytes, timingSafeEqual, createHmac, createHash } from "crypto";
+import { promisify } from "util";
+import type { Tenant, User, UserRole } from "@shared/schema";
+import { storage, type TenantScope } from "./storage";
+
+declare module "express-session" {
+  interface SessionData {
+    userId?: number;
+  }
+}
+
+// Request with the resolved tenant and the signed-in user loaded from the session
+export interface AuthRequest extends Request {
+  tenant?: Tenant;
+  currentUser?: User;
+}
+
+const SESSION_TTL = 7 * 24 * 60 * 60 * 1000; // 1 week
+
+// Signs session cookies and password tokens, so production refuses to start without one
+function loadSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.log('Warning: SESSION_SECRET not configured - using development secret');
+  return 'xauti-dev-session-secret';
+}
+
+const SESSION_SECRET = loadSessionSecret();
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const HASH_PREFIX = "scrypt";
+const KEY_LENGTH = 64;
+
+// Shared default that used to be assigned to webhook-created users.
+// Accounts still on it must set a new password before they can sign in.
+const LEGACY_DEFAULT_PASSWORD = "password123";
+
+export function getSession() {
+  const pgStore = connectPg(session);
+  const sessionStore = new pgStore({
+    conString: process.env.DATABASE_URL,
+    createTableIfMissing: false,
+    ttl: SESSION_TTL / 1000,
+    tableName: "sessions",
+  });
+
+  return session({
+    secret: SESSION_SECRET,
+    store: sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL,
+    },
+  });
+}
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(getSession());
+}
+
+// Start a fresh session for the user (prevents session fixation)
+export function signIn(req: Request, userId: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      req.session.userId = userId;
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function signOut(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Tenant every user and content query for this request is scoped to (null = main platform)
+export function getTenantId(req: AuthRequest): TenantScope {
+  return req.tenant?.id ?? null;
+}
+
+// Require a signed-in user and attach it to the request as currentUser
+export const isAuthenticated = async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const user = await storage.getUser(userId, getTenantId(req));
+    if (!user) {
+      // User was removed since the session was created, or belongs to another tenant
+      await signOut(req);
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    req.currentUser = user;
+    next();
+  } catch (error) {
+    console.error('Authentication error:', error);
+    res.status(500).json({ error: "Failed to authenticate" });
+  }
+};
+
+// Restrict a route to the given roles (use after isAuthenticated)
+export function requireRole(...roles: UserRole[]) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    const role = req.currentUser?.role as UserRole | undefined;
+    if (!role || !roles.includes(role)) {
+      return res.status(403).json({ error: "You don't have permission to access this resource" });
+    }
+    next();
+  };
+}
+
+// Emails listed in PLATFORM_ADMIN_EMAILS are promoted to platform admin on sign-in
+export function isBootstrapAdmin(email: string): boolean {
+  const adminEmails = (process.env.PLATFORM_ADMIN_EMAILS || '')
+    .split(',')
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean);
+  return adminEmails.includes(email.toLowerCase());
+}
+
+// Strip credentials before sending a user to the client
+export function toPublicUser(user: User) {
+  // The pre-ledger balance columns are stale; current balances come from the credit ledger
+  const { password, generationsUsed, scriptGenerationsUsed, purchasedGenerations, purchasedScriptGenerations, ...publicUser } = user;
+  return publicUser;
+}
+
+// Hash a password with a per-user random salt: scrypt$<salt>$<hash>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const derived = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt}$${derived.toString("hex")}`;
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`);
+}
+
+export type PasswordCheck =
+  | { valid: true; needsRehash: boolean }
+  | { valid: false; reason: "no_password" | "legacy_default" | "mismatch" };
+
+// Verify a password against the stored value. Rows written before hashing was
+// introduced still hold plaintext; those are compared in constant time and
+// flagged so the caller can rehash them on successful sign-in.
+export async function verifyPassword(password: string, stored: string | null): Promise<PasswordCheck> {
+  if (!stored) {
+    return { valid: false, reason: "no_password" };
+  }
+
+  if (isPasswordHash(stored)) {
+    const [, salt, hash] = stored.split("$");
+    const expected = Buffer.from(hash, "hex");
+    const derived = await scryptAsync(password, salt, expected.length);
+    return timingSafeEqual(derived, expected)
+      ? { valid: true, needsRehash: false }
+      : { valid: false, reason: "mismatch" };
+  }
+
+  if (stored === LEGACY_DEFAULT_PASSWORD) {
+    return { valid: false, reason: "legacy_default" };
+  }
+
+  const supplied = Buffer.from(password);
+  const expected = Buffer.from(stored);
+  const matches = supplied.length === expected.length && timingSafeEqual(supplied, expected);
+  return matches ? { valid: true, needsRehash: true } : { valid: false, reason: "mismatch" };
+}
+
+export type PasswordTokenPurpose = "reset" | "invite";
+
+const PASSWORD_TOKEN_TTL: Record<PasswordTokenPurpose, number> = {
+  reset: 60 * 60 * 1000, // 1 hour
+  invite: 7 * 24 * 60 * 60 * 1000, // 1 week
+};
+
+interface PasswordTokenPayload {
+  uid: number;
+  purpose: PasswordTokenPurpose;
+  exp: number;
+  pwd: string;
+}
+
+// Fingerprint of the stored password so a token stops working once it has been used
+function passwordFingerprint(stored: string | null): string {
+  return createHash("sha256").update(stored || "none").digest("hex").slice(0, 16);
+}
+
+function signTokenPayload(encodedPayload: string): string {
+  return createHmac("sha256", SESSION_SECRET).update(encodedPayload).digest("base64url");
+}
+
+// Create a signed, expiring token for resetting or first-time setting of a password
+export function createPasswordToken(user: User, purpose: PasswordTokenPurpose): string {
+  const payload: PasswordTokenPayload = {
+    uid: user.id,
+    purpose,
+    exp: Date.now() + PASSWORD_TOKEN_TTL[purpose],
+    pwd: passwordFingerprint(user.password),
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encodedPayload}.${signTokenPayload(encodedPayload)}`;
+}
+
+// Validate a password token and return the user it was issued for
+export async function verifyPasswordToken(token: string): Promise<User | undefined> {
+  const [encodedPayload, signature] = token.split(".");
+  if (!encodedPayload || !signature) return undefined;
+
+  const expected = Buffer.from(signTokenPayload(encodedPayload));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return undefined;
+  }
+
+  let payload: PasswordTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf-8"));
+  } catch {
+    return undefined;
+  }
+
+  if (!payload.uid || payload.exp < Date.now()) return undefined;
+
+  const user = await storage.getUser(payload.uid);
+  if (!user || passwordFingerprint(user.password) !== payload.pwd) {
+    return undefined;
+  }
+
+  return user;
+}
+
+// Base URL for links we send out: the tenant's custom domain, its subdomain of TENANT_BASE_DOMAIN
+// (by default APP_URL's host), else APP_URL. Never the request's Host header, which the caller
+// controls. Null when none of these is configured.
+export function findAppUrl(tenant?: Tenant | null): string | null {
+  if (tenant?.domain) {
+    return `https://${tenant.domain}`;
+  }
+  const appUrl = process.env.APP_URL?.replace(/\/+$/, "") || null;
+  const baseDomain = process.env.TENANT_BASE_DOMAIN || (appUrl ? new URL(appUrl).host : null);
+  if (tenant && baseDomain) {
+    return `https://${tenant.subdomain}.${baseDomain}`;
+  }
+  return appUrl;
+}
+
+// findAppUrl for links that must not fall back to anything else (password and invite emails)
+export function getAppUrl(tenant?: Tenant | null): string {
+  const appUrl = findAppUrl(tenant);
+  if (!appUrl) {
+    throw new Error("APP_URL is not configured");
+  }
+  return appUrl;
+}
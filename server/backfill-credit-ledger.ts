@@ -0,0 +1,43 @@
+// Move the balances stored on users before the credit ledger into credit_ledger.
+//
+// Run `npm run db:push` (which adds the ledger and keeps the old columns), then
+// `npm run credits:backfill`, before starting the new server. Users already moved are
+// skipped, so the script can be re-run after a partial failure.
+import { storage } from "./storage";
+import { planAllowances } from "./plans";
+
+// What the old code wrote into generationsLimit for each tier; top-ups were added on top
+const LEGACY_TIER_LIMITS: Record<string, number> = { free: 0, basic: 2, pro: 10, unlimited: 999999 };
+
+async function backfillCreditLedger() {
+  const userIds = await storage.getUserIdsWithLegacyCredits();
+  let importedUsers = 0;
+  let failedUsers = 0;
+
+  for (const userId of userIds) {
+    try {
+      // The limit columns become the plan allowance; top-ups above the old tier limit are moved to the purchased pool
+      const user = await storage.getUser(userId);
+      if (!user) continue;
+      const tenant = user.tenantId ? await storage.getTenant(user.tenantId) : null;
+      const legacyTierLimit = LEGACY_TIER_LIMITS[user.subscriptionTier || 'free'] ?? 0;
+      if (await storage.importLegacyCredits(userId, planAllowances(tenant, user.subscriptionTier), legacyTierLimit)) {
+        importedUsers++;
+        console.log(`Moved balances for user ${userId} into the credit ledger`);
+      }
+    } catch (error) {
+      failedUsers++;
+      console.error(`Failed to move balances for user ${userId}:`, error);
+    }
+  }
+
+  console.log(`Checked ${userIds.length} users: ${importedUsers} moved, ${failedUsers} failed`);
+  return failedUsers === 0;
+}
+
+backfillCreditLedger()
+  .then(succeeded => process.exit(succeeded ? 0 : 1))
+  .catch(error => {
+    console.error('Credit ledger backfill failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,111 @@
+import OpenAI from "openai";
+import { z } from "zod";
+import { CONTENT_GENERATORS, type ContentGenerator, type Tenant } from "@shared/schema";
+
+// Built-in 30-day calendar generator, used instead of the n8n workflow when a tenant (or, through
+// CONTENT_GENERATOR, the main platform) selects "native"
+const PLATFORM_GENERATOR = (process.env.CONTENT_GENERATOR || "n8n") as ContentGenerator;
+
+export const CALENDAR_DAYS = 30;
+const DAYS_PER_BATCH = 10; // keeps each completion well inside the model's output limit
+
+const PLATFORMS = ["Instagram", "Facebook", "LinkedIn", "TikTok", "X"];
+
+export function resolveContentGenerator(tenant?: Tenant | null): ContentGenerator {
+  const generator = tenant ? tenant.contentGenerator : PLATFORM_GENERATOR;
+  return CONTENT_GENERATORS.includes(generator as ContentGenerator) ? generator as ContentGenerator : "n8n";
+}
+
+export const calendarDaySchema = z.object({
+  day: z.coerce.number().int().min(1).max(CALENDAR_DAYS),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  platform: z.string().min(1),
+  hook: z.string().min(1),
+  post: z.string().min(1),
+  hashtags: z.preprocess(
+    value => typeof value === "string" ? value.split(/[\s,]+/).filter(Boolean) : value,
+    z.array(z.string().min(1))
+  ),
+  postingTime: z.string().min(1), // e.g. "09:00"
+  callToAction: z.string().nullish(),
+  mediaNotes: z.string().nullish(),
+});
+export type CalendarDay = z.infer<typeof calendarDaySchema>;
+
+const batchSchema = z.object({ days: z.array(calendarDaySchema) });
+
+export interface CalendarOptions {
+  industry: string;
+  topics: string[];
+  startDate: Date;
+  signal?: AbortSignal;
+  onProgress?: (daysDone: number, totalDays: number) => Promise<void> | void;
+}
+
+function addDays(date: Date, days: number): string {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+async function generateBatch(openai: OpenAI, options: CalendarOptions, firstDay: number, lastDay: number): Promise<CalendarDay[]> {
+  const schedule = [];
+  for (let day = firstDay; day <= lastDay; day++) {
+    schedule.push(`Day ${day}: ${addDays(options.startDate, day - 1)}, topic "${options.topics[(day - 1) % options.topics.length]}"`);
+  }
+
+  const prompt = `Plan social media posts for a business in the "${options.industry}" industry.
+
+Write one post for each of these days:
+${schedule.join("\n")}
+
+For each day choose the best platform from ${PLATFORMS.join(", ")} and vary them across the plan.
+
+Return JSON: {"days": [{"day": number, "date": "YYYY-MM-DD", "platform": string, "hook": string, "post": string, "hashtags": string[], "postingTime": "HH:MM", "callToAction": string, "mediaNotes": string}]}
+- hook: the scroll-stopping opening line
+- post: the full post copy, ready to publish, written for the platform
+- hashtags: 3-6 relevant hashtags including the #
+- postingTime: the best local time to post on that platform and weekday, 24-hour clock
+- callToAction: what the reader should do next
+- mediaNotes: a short brief for the image or video to pair with the post`;
+
+  const response = await openai.chat.completions.create({
+    model: "gpt-3.5-turbo",
+    messages: [
+      { role: "system", content: "You are a social media strategist. Reply with JSON only." },
+      { role: "user", content: prompt }
+    ],
+    response_format: { type: "json_object" },
+    max_tokens: 3000,
+    temperature: 0.8,
+  }, { signal: options.signal });
+
+  const content = response.choices[0]?.message?.content;
+  const parsed = batchSchema.safeParse(content ? JSON.parse(content) : null);
+  if (!parsed.success) {
+    throw new Error(`Calendar days ${firstDay}-${lastDay} came back malformed: ${parsed.error.errors[0]?.message}`);
+  }
+
+  const days = parsed.data.days.filter(day => day.day >= firstDay && day.day <= lastDay);
+  if (days.length !== lastDay - firstDay + 1) {
+    throw new Error(`Calendar days ${firstDay}-${lastDay} came back with ${days.length} posts`);
+  }
+  return days.sort((a, b) => a.day - b.day);
+}
+
+// Generate the full calendar in batches, reporting progress after each one. Errors propagate so
+// the job can retry.
+export async function generateContentCalendar(openai: OpenAI, options: CalendarOptions): Promise<CalendarDay[]> {
+  if (options.topics.length === 0) {
+    throw new Error("At least one topic is required");
+  }
+
+  const days: CalendarDay[] = [];
+  for (let firstDay = 1; firstDay <= CALENDAR_DAYS; firstDay += DAYS_PER_BATCH) {
+    options.signal?.throwIfAborted();
+    const lastDay = Math.min(firstDay + DAYS_PER_BATCH - 1, CALENDAR_DAYS);
+    days.push(...await generateBatch(openai, options, firstDay, lastDay));
+    await options.onProgress?.(days.length, CALENDAR_DAYS);
+  }
+  return days;
+}
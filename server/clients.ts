@@ -0,0 +1,59 @@
+import OpenAI from "openai";
+import Stripe from "stripe";
+import type { Tenant, CredentialPolicy } from "@shared/schema";
+import { decryptSecret } from "./secrets";
+
+// Platform accounts used by the main site and, where a tenant's policy allows it, as a fallback
+const platformOpenAI = process.env.OPENAI_API_KEY
+  ? new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+  : null;
+
+const platformStripe = process.env.STRIPE_SECRET_KEY
+  ? new Stripe(process.env.STRIPE_SECRET_KEY)
+  : null;
+
+// Clients are reused across requests, keyed by (decrypted) API key
+const openaiClients = new Map<string, OpenAI>();
+const stripeClients = new Map<string, Stripe>();
+
+function tenantOpenAI(apiKey: string): OpenAI {
+  let client = openaiClients.get(apiKey);
+  if (!client) {
+    client = new OpenAI({ apiKey });
+    openaiClients.set(apiKey, client);
+  }
+  return client;
+}
+
+function tenantStripe(secretKey: string): Stripe {
+  let client = stripeClients.get(secretKey);
+  if (!client) {
+    client = new Stripe(secretKey);
+    stripeClients.set(secretKey, client);
+  }
+  return client;
+}
+
+// The tenant's own client if it has a key, else the platform client when its policy allows.
+// Requests without a tenant (the main site) always use the platform client.
+export function getOpenAIClient(tenant?: Tenant | null): OpenAI | null {
+  if (!tenant) return platformOpenAI;
+  if (tenant.openaiApiKey) return tenantOpenAI(decryptSecret(tenant.openaiApiKey));
+  return (tenant.openaiPolicy as CredentialPolicy) === "platform_fallback" ? platformOpenAI : null;
+}
+
+export function getStripeClient(tenant?: Tenant | null): Stripe | null {
+  if (!tenant) return platformStripe;
+  if (tenant.stripeSecretKey) return tenantStripe(decryptSecret(tenant.stripeSecretKey));
+  return (tenant.stripePolicy as CredentialPolicy) === "platform_fallback" ? platformStripe : null;
+}
+
+// Signing secret for Stripe webhooks sent by the platform account or a tenant's own account
+export function getStripeWebhookSecret(tenant: Tenant | null): string | null {
+  if (!tenant) return process.env.STRIPE_WEBHOOK_SECRET || null;
+  return decryptSecret(tenant.stripeWebhookSecret);
+}
+
+export function verifyStripeEvent(payload: Buffer | string, signature: string | string[], secret: string): Stripe.Event {
+  return Stripe.webhooks.constructEvent(payload, signature, secret);
+}
@@ -0,0 +1,154 @@
+import type { ContentItem, ContentItemInput } from "@shared/schema";
+import type { CalendarDay } from "./calendar";
+
+// Converting content calendars between CSV and content_items rows
+
+type ItemField = keyof ContentItemInput;
+
+// Header names n8n workflows have used for each field, compared after normalizeHeader
+const COLUMN_ALIASES: Record<ItemField, string[]> = {
+  day: ["day", "day number", "day #", "#"],
+  date: ["date", "post date", "publish date", "posting date"],
+  platform: ["platform", "channel", "network", "social platform"],
+  hook: ["hook", "headline", "opening line"],
+  caption: ["caption", "post", "post copy", "copy", "content", "post content", "post text", "text", "body"],
+  hashtags: ["hashtags", "hashtag", "tags"],
+  callToAction: ["cta", "call to action"],
+  mediaNotes: ["media notes", "media", "media idea", "visual", "visual idea", "image", "image idea", "notes"],
+  postingTime: ["posting time", "time", "best time", "suggested time", "post time"],
+};
+
+const EXPORT_COLUMNS: [string, (item: ContentItem) => string][] = [
+  ["Day", item => String(item.day)],
+  ["Date", item => item.date ?? ""],
+  ["Platform", item => item.platform ?? ""],
+  ["Hook", item => item.hook ?? ""],
+  ["Caption", item => item.caption],
+  ["Hashtags", item => item.hashtags.join(" ")],
+  ["Call to Action", item => item.callToAction ?? ""],
+  ["Media Notes", item => item.mediaNotes ?? ""],
+  ["Posting Time", item => item.postingTime ?? ""],
+];
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[_\-]+/g, " ").replace(/[^a-z0-9# ]/g, "").replace(/\s+/g, " ").trim();
+}
+
+// Quoted fields, doubled quotes and line breaks inside quotes, per RFC 4180
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ""));
+}
+
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function splitHashtags(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map(tag => tag.trim())
+    .filter(Boolean)
+    .map(tag => tag.startsWith("#") ? tag : `#${tag}`);
+}
+
+// base64 as stored in csvBase64, with or without a data: URL prefix
+export function decodeCsvBase64(value: string): string {
+  const base64 = value.startsWith("data:") ? value.slice(value.indexOf(",") + 1) : value;
+  return Buffer.from(base64, "base64").toString("utf-8");
+}
+
+// Posts from a calendar CSV. Returns an empty list when the CSV has no caption column
+// (e.g. a status summary), so the caller can keep the file as it is.
+export function parseContentItemsCsv(csv: string): ContentItemInput[] {
+  const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+
+  const headers = header.map(normalizeHeader);
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as ItemField[]).map(field => [
+      field,
+      headers.findIndex(name => COLUMN_ALIASES[field].includes(name)),
+    ])
+  ) as Record<ItemField, number>;
+  if (columns.caption === -1) return [];
+
+  const cell = (cells: string[], field: ItemField) => {
+    const value = columns[field] === -1 ? "" : (cells[columns[field]] ?? "").trim();
+    return value || null;
+  };
+
+  return rows
+    .map((cells, index): ContentItemInput | null => {
+      const caption = cell(cells, "caption");
+      if (!caption) return null;
+      const day = parseInt(cell(cells, "day") ?? "", 10);
+      const date = cell(cells, "date");
+      return {
+        day: Number.isInteger(day) && day > 0 ? day : index + 1,
+        date: date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null,
+        platform: cell(cells, "platform"),
+        hook: cell(cells, "hook"),
+        caption,
+        hashtags: splitHashtags(cell(cells, "hashtags") ?? ""),
+        callToAction: cell(cells, "callToAction"),
+        mediaNotes: cell(cells, "mediaNotes"),
+        postingTime: cell(cells, "postingTime"),
+      };
+    })
+    .filter((item): item is ContentItemInput => item !== null);
+}
+
+export function calendarDaysToItems(days: CalendarDay[]): ContentItemInput[] {
+  return days.map(day => ({
+    day: day.day,
+    date: day.date,
+    platform: day.platform,
+    hook: day.hook,
+    caption: day.post,
+    hashtags: splitHashtags(day.hashtags.join(" ")),
+    callToAction: day.callToAction ?? null,
+    mediaNotes: day.mediaNotes ?? null,
+    postingTime: day.postingTime,
+  }));
+}
+
+export function contentItemsToCsv(items: ContentItem[]): string {
+  const header = EXPORT_COLUMNS.map(([name]) => name).join(",");
+  const rows = items.map(item => EXPORT_COLUMNS.map(([, value]) => csvField(value(item))).join(","));
+  return [header, ...rows].join("\n");
+}
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import type { Tenant } from "@shared/schema";
+import { decryptSecret } from "./secrets";
+
+// Secret for HighLevel webhooks sent to the main platform or to a tenant; requests are checked
+// with verifyWebhookRequest
+export function getHighLevelWebhookSecret(tenant: Tenant | null): string | null {
+  if (!tenant) return process.env.HIGHLEVEL_WEBHOOK_SECRET || null;
+  return decryptSecret(tenant.highlevelWebhookSecret);
+}
+
+// Contact fields HighLevel may send at the top level, flattened ("contact.email") or nested
+function pick(body: Record<string, any>, field: string): unknown {
+  return body[field] ?? body[`contact.${field}`] ?? body.contact?.[field] ?? body.customer?.[field];
+}
+
+// Tags arrive as an array or as a comma-separated string
+const tagsSchema = z.preprocess(
+  value => typeof value === "string" ? value.split(",").map(tag => tag.trim()).filter(Boolean) : value ?? [],
+  z.array(z.string().trim().min(1))
+);
+
+export const highLevelContactSchema = z.object({
+  email: z.string().trim().email(),
+  firstName: z.string().trim().nullish(),
+  lastName: z.string().trim().nullish(),
+  tags: tagsSchema,
+  subscriptionEndDate: z.string().nullish(), // renewal date from the CRM, if the workflow sends one
+});
+export type HighLevelContact = z.infer<typeof highLevelContactSchema>;
+
+export function parseHighLevelContact(body: unknown) {
+  const fields = body && typeof body === "object" ? body as Record<string, any> : {};
+  return highLevelContactSchema.safeParse({
+    email: pick(fields, "email") ?? fields.contactEmail,
+    firstName: pick(fields, "firstName"),
+    lastName: pick(fields, "lastName"),
+    tags: pick(fields, "tags"),
+    subscriptionEndDate: pick(fields, "subscriptionEndDate") ?? pick(fields, "renewalDate") ?? pick(fields, "planEndDate"),
+  });
+}
@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startJobWorker } from "./jobs";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -16,9 +17,20 @@ app.use((req, res, next) => {
   }
 });
 
-app.use(express.json({ limit: '10mb' }));
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
+
+// Keep the exact request bytes for webhook signature verification (Stripe, etc.)
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false, limit: '10mb' }));
-app.use(express.raw({ type: 'application/json', limit: '10mb' }));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -80,5 +92,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startJobWorker();
   });
 })();
@@ -0,0 +1,171 @@
+import type { GenerationJob, InsertGenerationJob, JobType } from "@shared/schema";
+import { storage, type TenantScope } from "./storage";
+
+// In-process worker for the generation_jobs table. Jobs survive restarts because their state
+// lives in Postgres; the sweeper settles attempts that were cut off and jobs past their deadline.
+const POLL_INTERVAL_MS = 2000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const MAX_CONCURRENT_JOBS = 4;
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 10 * 60 * 1000;
+const LEASE_GRACE_MS = 60 * 1000;
+
+// "waiting" hands the job to an external workflow that reports back later; it is dead-lettered
+// if nothing arrives before the deadline
+export type JobOutcome = { status: "completed" } | { status: "waiting" };
+
+export interface JobHandler {
+  attemptTimeoutMs: number; // each attempt is aborted after this long
+  run(job: GenerationJob, signal: AbortSignal): Promise<JobOutcome>;
+  onDeadLetter(job: GenerationJob, error: string): Promise<void>; // e.g. fail the request and return its credit
+}
+
+export interface NewJob {
+  tenantId: TenantScope;
+  userId: number;
+  type: JobType;
+  contentRequestId: number;
+  payload: Record<string, unknown>;
+  deadlineMs: number; // from now
+  maxAttempts?: number;
+}
+
+const handlers = new Map<string, JobHandler>();
+let activeJobs = 0;
+let polling = false;
+let started = false;
+
+export function registerJobHandler(type: JobType, handler: JobHandler) {
+  handlers.set(type, handler);
+}
+
+export async function enqueueJob(job: NewJob): Promise<GenerationJob> {
+  const created = await storage.createGenerationJob({
+    tenantId: job.tenantId,
+    userId: job.userId,
+    type: job.type,
+    contentRequestId: job.contentRequestId,
+    payload: job.payload as InsertGenerationJob["payload"],
+    maxAttempts: job.maxAttempts ?? 3,
+    deadline: new Date(Date.now() + job.deadlineMs)
+  });
+  console.log(`Queued ${job.type} job ${created.id} for request ${job.contentRequestId}`);
+  setImmediate(pollJobs);
+  return created;
+}
+
+// 30s, 1m, 2m, 4m... capped at 10 minutes
+export function backoffDelay(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+async function deadLetter(job: GenerationJob, error: string, fromStatus: string) {
+  const dead = await storage.updateGenerationJob(job.id, { status: "dead", lastError: error, lockedUntil: null, completedAt: new Date() }, fromStatus);
+  if (!dead) return; // settled elsewhere in the meantime
+
+  console.log(`Job ${job.id} (${job.type}) dead-lettered: ${error}`);
+  try {
+    await handlers.get(job.type)?.onDeadLetter(dead, error);
+  } catch (handlerError) {
+    console.error(`Dead-letter handler failed for job ${job.id}:`, handlerError);
+  }
+}
+
+// A failed attempt is retried with backoff until attempts or the deadline run out
+async function failAttempt(job: GenerationJob, error: string) {
+  const retryAt = new Date(Date.now() + backoffDelay(job.attempts));
+  if (job.attempts >= job.maxAttempts || retryAt >= job.deadline) {
+    return deadLetter(job, error, "running");
+  }
+
+  const requeued = await storage.updateGenerationJob(job.id, { status: "queued", runAt: retryAt, lockedUntil: null, lastError: error }, "running");
+  if (requeued) {
+    console.log(`Job ${job.id} (${job.type}) attempt ${job.attempts} failed, retrying at ${retryAt.toISOString()}: ${error}`);
+  }
+}
+
+async function runJob(job: GenerationJob) {
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    return deadLetter(job, `No handler for job type ${job.type}`, "running");
+  }
+
+  // The attempt never runs past the job's deadline
+  const timeoutMs = Math.max(Math.min(handler.attemptTimeoutMs, job.deadline.getTime() - Date.now()), 0);
+  try {
+    const outcome = await handler.run(job, AbortSignal.timeout(timeoutMs));
+    await storage.updateGenerationJob(
+      job.id,
+      outcome.status === "waiting"
+        ? { status: "waiting", lockedUntil: null, lastError: null }
+        : { status: "completed", lockedUntil: null, lastError: null, completedAt: new Date() },
+      "running"
+    );
+  } catch (error: any) {
+    const message = error?.name === "TimeoutError"
+      ? `Attempt timed out after ${Math.round(timeoutMs / 1000)}s`
+      : error?.message || String(error);
+    await failAttempt(job, message);
+  }
+}
+
+// Claim due jobs until the concurrency limit is reached. The lease outlasts the longest
+// attempt timeout, so only attempts cut off by a restart are ever swept.
+async function pollJobs() {
+  if (polling) return;
+  polling = true;
+  const leaseMs = Math.max(0, ...Array.from(handlers.values(), handler => handler.attemptTimeoutMs)) + LEASE_GRACE_MS;
+  try {
+    while (activeJobs < MAX_CONCURRENT_JOBS) {
+      const job = await storage.claimGenerationJob(leaseMs);
+      if (!job) break;
+
+      activeJobs++;
+      runJob(job)
+        .catch(error => console.error(`Job ${job.id} crashed:`, error))
+        .finally(() => {
+          activeJobs--;
+          setImmediate(pollJobs);
+        });
+    }
+  } catch (error) {
+    console.error("Job queue poll failed:", error);
+  } finally {
+    polling = false;
+  }
+}
+
+// Settle attempts whose lease expired (the process died mid-run) and dead-letter jobs past their deadline
+export async function sweepJobs(): Promise<number> {
+  const expired = await storage.getExpiredGenerationJobs();
+  for (const job of expired) {
+    if (job.deadline < new Date()) {
+      await deadLetter(job, job.status === "waiting" ? "No result before the deadline" : "Deadline passed", job.status);
+    } else {
+      await failAttempt(job, "Attempt was interrupted (lease expired)");
+    }
+  }
+  if (expired.length > 0) {
+    console.log(`Job sweeper settled ${expired.length} job(s)`);
+  }
+  return expired.length;
+}
+
+// Finish the content job that was waiting for its workflow to call back
+export async function settleWaitingJob(contentRequestId: number, status: "completed" | "dead", error?: string) {
+  const [job] = await storage.getGenerationJobs({ contentRequestId, type: "content", status: "waiting", limit: 1 });
+  if (!job) return;
+  await storage.updateGenerationJob(job.id, { status, lastError: error ?? null, completedAt: new Date() }, "waiting");
+}
+
+export function startJobWorker() {
+  if (started) return;
+  started = true;
+
+  setInterval(pollJobs, POLL_INTERVAL_MS);
+  setInterval(() => {
+    sweepJobs().catch(error => console.error("Job sweep failed:", error));
+  }, SWEEP_INTERVAL_MS);
+  sweepJobs().catch(error => console.error("Job sweep failed:", error));
+  console.log(`Job worker started (${handlers.size} job types, up to ${MAX_CONCURRENT_JOBS} at a time)`);
+}
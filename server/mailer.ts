@@ -0,0 +1,125 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface IMailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Development transport: prints every message to the server log
+export class ConsoleMailer implements IMailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log('=== OUTGOING EMAIL ===');
+    console.log('To:', message.to);
+    console.log('Subject:', message.subject);
+    console.log(message.text);
+    console.log('======================');
+  }
+}
+
+// Development transport: writes each message to its own file for inspection
+export class FileMailer implements IMailer {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const filename = `${Date.now()}-${safeRecipient}.txt`;
+    const contents = `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+    await fs.writeFile(path.join(this.directory, filename), contents, 'utf-8');
+    console.log(`Email to ${message.to} written to ${filename}`);
+  }
+}
+
+// Production transport: hands the message to an HTTP endpoint (n8n, HighLevel, etc.)
+export class WebhookMailer implements IMailer {
+  constructor(private url: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail webhook failed with status: ${response.status}`);
+    }
+  }
+}
+
+// Production without a usable transport: every send fails and the caller reports it, rather than
+// the console or file transport writing live tokens to the log or disk
+export class UnavailableMailer implements IMailer {
+  constructor(private reason: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    throw new Error(`Email to ${message.to} not sent: ${this.reason}`);
+  }
+}
+
+// MAIL_TRANSPORT selects the transport: console (default outside production), file or webhook.
+// Production only sends through the webhook.
+function createMailer(): IMailer {
+  const production = process.env.NODE_ENV === 'production';
+  const transport = process.env.MAIL_TRANSPORT || (production ? 'webhook' : 'console');
+
+  if (production && transport !== 'webhook') {
+    console.error(`MAIL_TRANSPORT=${transport} is not allowed in production - emails will not be sent`);
+    return new UnavailableMailer(`the ${transport} transport is disabled in production`);
+  }
+
+  switch (transport) {
+    case 'file':
+      return new FileMailer(process.env.MAIL_FILE_DIR || path.resolve('tmp', 'mail'));
+    case 'webhook':
+      if (!process.env.MAIL_WEBHOOK_URL) {
+        if (production) {
+          console.error('MAIL_WEBHOOK_URL not configured - emails will not be sent');
+          return new UnavailableMailer('MAIL_WEBHOOK_URL is not configured');
+        }
+        console.log('Warning: MAIL_WEBHOOK_URL not configured - falling back to console mailer');
+        return new ConsoleMailer();
+      }
+      return new WebhookMailer(process.env.MAIL_WEBHOOK_URL);
+    default:
+      return new ConsoleMailer();
+  }
+}
+
+export const mailer = createMailer();
+
+export async function sendPasswordResetEmail(to: string, name: string, resetUrl: string): Promise<void> {
+  await mailer.send({
+    to,
+    subject: "Reset your Xauti password",
+    text: `Hi ${name},
+
+We received a request to reset the password for your Xauti Content Generator account.
+
+Set a new password here (the link expires in 1 hour):
+${resetUrl}
+
+If you didn't ask for this, you can ignore this email - your password won't change.`
+  });
+}
+
+export async function sendInvitationEmail(to: string, name: string, inviteUrl: string): Promise<void> {
+  await mailer.send({
+    to,
+    subject: "Your Xauti Content Generator account is ready",
+    text: `Hi ${name},
+
+An account has been created for you on the Xauti Content Generator.
+
+Choose your password to get started (the link expires in 7 days):
+${inviteUrl}
+
+Once your password is set, sign in with this email address to start building your 30-day content streak.`
+  });
+}
@@ -0,0 +1,140 @@
+import { z } from "zod";
+import type { Tenant } from "@shared/schema";
+import { decryptSecret } from "./secrets";
+
+// Platform workflow used by the main site and by tenants without their own n8n setup
+const PLATFORM_WEBHOOK_URL = process.env.N8N_WEBHOOK_URL || 'https://n8n.srv847085.hstgr.cloud/webhook/words-only';
+const PLATFORM_API_KEY = process.env.N8N_API_KEY || null;
+
+const TEST_TIMEOUT_MS = 15000;
+
+// How long a generation run may take before its request is treated as failed
+export const WORKFLOW_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface WorkflowEndpoint {
+  url: string;
+  apiKey: string | null;
+  source: "tenant" | "platform";
+}
+
+export interface WorkflowPayload {
+  industry: string;
+  selected_topics: string[];
+  requestId: number | null;
+  callbackUrl?: string; // where the workflow posts progress and results (see workflowCallbackSchema)
+  dryRun?: boolean;
+}
+
+export interface WorkflowTestResult {
+  ok: boolean;
+  url: string;
+  source: WorkflowEndpoint["source"];
+  status?: number;
+  durationMs: number;
+  responsePreview?: string;
+  error?: string;
+}
+
+// A tenant's own workflow wins; otherwise fall back to the platform workflow
+export function resolveWorkflowEndpoint(tenant?: Tenant | null): WorkflowEndpoint {
+  if (tenant?.n8nWebhookUrl) {
+    return { url: tenant.n8nWebhookUrl, apiKey: decryptSecret(tenant.n8nApiKey), source: "tenant" };
+  }
+  return { url: PLATFORM_WEBHOOK_URL, apiKey: PLATFORM_API_KEY, source: "platform" };
+}
+
+// Secret n8n signs its callbacks with: N8N_CALLBACK_SECRET on the main platform, the tenant's own otherwise
+export function getWorkflowCallbackSecret(tenant: Tenant | null): string | null {
+  if (!tenant) return process.env.N8N_CALLBACK_SECRET || null;
+  return decryptSecret(tenant.n8nCallbackSecret);
+}
+
+// Google Drive file metadata, as returned by the Drive node
+const driveFileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  webContentLink: z.string().url(),
+  size: z.coerce.number().default(0),
+  createdTime: z.string().default(() => new Date().toISOString()),
+  modifiedTime: z.string().default(() => new Date().toISOString()),
+});
+
+// Payloads the workflow may post to its callback URL while and after it runs
+export const workflowCallbackSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("progress"),
+    requestId: z.coerce.number().int(),
+    percent: z.number().min(0).max(100).optional(),
+    message: z.string().max(500).optional(),
+  }),
+  z.object({
+    type: z.literal("csv"),
+    requestId: z.coerce.number().int(),
+    csv: z.string().optional(), // plain CSV text...
+    csvBase64: z.string().optional(), // ...or base64 encoded
+    filename: z.string().max(200).optional(),
+  }),
+  z.object({
+    type: z.literal("drive_file"),
+    requestId: z.coerce.number().int(),
+    file: driveFileSchema,
+  }),
+  z.object({
+    type: z.literal("error"),
+    requestId: z.coerce.number().int(),
+    error: z.string().min(1).max(2000),
+  }),
+]).superRefine((callback, ctx) => {
+  if (callback.type === "csv" && !callback.csv && !callback.csvBase64) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["csv"], message: "csv or csvBase64 is required" });
+  }
+});
+export type WorkflowCallback = z.infer<typeof workflowCallbackSchema>;
+
+// POST a payload to the workflow webhook, authenticating with a bearer token when a key is set
+export function dispatchWorkflow(endpoint: WorkflowEndpoint, payload: WorkflowPayload, signal?: AbortSignal): Promise<Response> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (endpoint.apiKey) {
+    headers['Authorization'] = `Bearer ${endpoint.apiKey}`;
+  }
+
+  return fetch(endpoint.url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(payload),
+    signal
+  });
+}
+
+// Send a dry-run payload so admins can check a workflow is reachable and accepts our auth
+export async function testWorkflow(endpoint: WorkflowEndpoint): Promise<WorkflowTestResult> {
+  const startedAt = Date.now();
+  const result = { url: endpoint.url, source: endpoint.source };
+
+  try {
+    const response = await dispatchWorkflow(endpoint, {
+      industry: "Workflow Test",
+      selected_topics: ["Connectivity check"],
+      requestId: null,
+      dryRun: true
+    }, AbortSignal.timeout(TEST_TIMEOUT_MS));
+
+    const responseText = await response.text();
+    return {
+      ...result,
+      ok: response.ok,
+      status: response.status,
+      durationMs: Date.now() - startedAt,
+      responsePreview: responseText.slice(0, 500)
+    };
+  } catch (error: any) {
+    return {
+      ...result,
+      ok: false,
+      durationMs: Date.now() - startedAt,
+      error: error.name === 'TimeoutError'
+        ? `No response within ${TEST_TIMEOUT_MS / 1000} seconds`
+        : error.message || 'Request failed'
+    };
+  }
+}
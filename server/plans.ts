@@ -0,0 +1,76 @@
+import { planCatalogSchema, type Plan, type PlanCatalog, type Tenant } from "@shared/schema";
+
+// Plans sold on the main platform and to tenants that haven't set up their own catalog
+export const DEFAULT_PLAN_CATALOG: PlanCatalog = [
+  {
+    tier: "free",
+    name: "Free",
+    price: 0,
+    generationsLimit: 0,
+    scriptGenerationsLimit: 0,
+    creditPrices: { content: 700, script: null },
+    features: { checkout: false, unlimited: false }
+  },
+  {
+    tier: "basic",
+    name: "Basic",
+    price: 300,
+    generationsLimit: 2,
+    scriptGenerationsLimit: 0,
+    creditPrices: { content: 700, script: 1000 },
+    features: { checkout: true, unlimited: false }
+  },
+  {
+    tier: "pro",
+    name: "Pro",
+    price: 2700,
+    generationsLimit: 10,
+    scriptGenerationsLimit: 10,
+    creditPrices: { content: 700, script: 700 },
+    features: { checkout: true, unlimited: false }
+  },
+  {
+    tier: "unlimited",
+    name: "Unlimited",
+    price: 9900,
+    generationsLimit: 999999,
+    scriptGenerationsLimit: 999999,
+    creditPrices: { content: 700, script: 700 },
+    features: { checkout: true, unlimited: true }
+  }
+];
+
+// The tenant's own catalog, or the platform defaults when it has none (or a stored one no longer validates)
+export function getPlanCatalog(tenant?: Tenant | null): PlanCatalog {
+  if (!tenant?.planCatalog) return DEFAULT_PLAN_CATALOG;
+
+  const parsed = planCatalogSchema.safeParse(tenant.planCatalog);
+  if (!parsed.success) {
+    console.error(`Tenant ${tenant.id} has an invalid plan catalog, using defaults:`, parsed.error.message);
+    return DEFAULT_PLAN_CATALOG;
+  }
+  return parsed.data;
+}
+
+export function findPlan(tenant: Tenant | null | undefined, tier: string | null | undefined): Plan | undefined {
+  return getPlanCatalog(tenant).find(plan => plan.tier === (tier || "free"));
+}
+
+// The plan a Stripe subscription price belongs to, for plans that name their Stripe price
+export function findPlanByStripePrice(tenant: Tenant | null | undefined, priceId: string): Plan | undefined {
+  return getPlanCatalog(tenant).find(plan => plan.stripePriceId === priceId);
+}
+
+// Monthly content and script allowances for a tier (tiers missing from the catalog get none)
+export function planAllowances(tenant: Tenant | null | undefined, tier: string | null | undefined) {
+  const plan = findPlan(tenant, tier);
+  return {
+    generationsLimit: plan?.generationsLimit ?? 0,
+    scriptGenerationsLimit: plan?.scriptGenerationsLimit ?? 0
+  };
+}
+
+// Display price, e.g. "$27" or "$0"
+export function formatPlanPrice(cents: number): string {
+  return `$${(cents / 100).toFixed(cents % 100 === 0 ? 0 : 2)}`;
+}
@@ -0,0 +1,28 @@
+import { EventEmitter } from "events";
+import type { ContentRequest } from "@shared/schema";
+
+// In-process fan-out of content request changes to the progress streams (/api/content-stream).
+// Every write goes through storage.updateContentRequest, which publishes the updated row.
+// Only streams on the writing instance hear it; the stream route also polls the database.
+export type RequestEvent =
+  | { type: "update"; request: ContentRequest }
+  | { type: "script-day"; day: number; totalDays: number };
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0); // one listener per open stream
+
+export function publishRequestUpdate(request: ContentRequest) {
+  emitter.emit(`request:${request.id}`, { type: "update", request } satisfies RequestEvent);
+}
+
+export function publishScriptDay(requestId: number, day: number, totalDays: number) {
+  emitter.emit(`request:${requestId}`, { type: "script-day", day, totalDays } satisfies RequestEvent);
+}
+
+// Returns the unsubscribe function
+export function subscribeToRequest(requestId: number, listener: (event: RequestEvent) => void): () => void {
+  emitter.on(`request:${requestId}`, listener);
+  return () => {
+    emitter.off(`request:${requestId}`, listener);
+  };
+}
@@ -0,0 +1,46 @@
+// Re-encrypt every tenant secret with the current TENANT_SECRETS_KEY.
+//
+// To rotate: set TENANT_SECRETS_KEY to the new key, list the old key in
+// TENANT_SECRETS_PREVIOUS_KEYS, run `npm run secrets:rotate`, then drop the old key.
+// Also encrypts any secrets still stored as plaintext.
+import { storage } from "./storage";
+import { rewrapSecret, TENANT_SECRET_FIELDS } from "./secrets";
+import type { Tenant } from "@shared/schema";
+
+async function rotateTenantSecrets() {
+  const tenants = await storage.getAllTenants();
+  let updatedTenants = 0;
+  let failedTenants = 0;
+
+  for (const tenant of tenants) {
+    try {
+      const updates: Partial<Tenant> = {};
+      for (const field of TENANT_SECRET_FIELDS) {
+        const stored = tenant[field];
+        if (!stored) continue;
+
+        const rewrapped = rewrapSecret(stored);
+        if (rewrapped) updates[field] = rewrapped;
+      }
+
+      if (Object.keys(updates).length > 0) {
+        await storage.updateTenant(tenant.id, updates);
+        updatedTenants++;
+        console.log(`Re-encrypted ${Object.keys(updates).join(', ')} for tenant ${tenant.id}`);
+      }
+    } catch (error) {
+      failedTenants++;
+      console.error(`Failed to re-encrypt secrets for tenant ${tenant.id}:`, error);
+    }
+  }
+
+  console.log(`Checked ${tenants.length} tenants: ${updatedTenants} re-encrypted, ${failedTenants} failed`);
+  return failedTenants === 0;
+}
+
+rotateTenantSecrets()
+  .then(succeeded => process.exit(succeeded ? 0 : 1))
+  .catch(error => {
+    console.error('Secret rotation failed:', error);
+    process.exit(1);
+  });
@@ -1,33 +1,30 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import express from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type TenantScope } from "./storage";
+import { setupAuth, isAuthenticated, getTenantId, signIn, signOut, toPublicUser, hashPassword, verifyPassword, createPasswordToken, verifyPasswordToken, findAppUrl, getAppUrl, requireRole, isBootstrapAdmin, type AuthRequest } from "./auth";
+import { sendPasswordResetEmail, sendInvitationEmail } from "./mailer";
+import { resolveWorkflowEndpoint, dispatchWorkflow, testWorkflow, getWorkflowCallbackSecret, workflowCallbackSchema, WORKFLOW_TIMEOUT_MS } from "./n8n";
+import { registerJobHandler, enqueueJob, settleWaitingJob, type JobOutcome } from "./jobs";
+import { subscribeToRequest, publishScriptDay } from "./progress";
+import { resolveContentGenerator, generateContentCalendar } from "./calendar";
+import { parseContentItemsCsv, calendarDaysToItems, contentItemsToCsv, decodeCsvBase64 } from "./content-items";
+import { getPlanCatalog, findPlan, findPlanByStripePrice, planAllowances, formatPlanPrice } from "./plans";
+import { evaluateTags, getEffectiveTagRules, resolveTierFromTags } from "./tag-rules";
+import { maskSecret } from "./secrets";
+import { getHighLevelWebhookSecret, parseHighLevelContact, type HighLevelContact } from "./highlevel";
+import { redactHeaders, rejectedDeliveryContent, verifyWebhookRequest } from "./webhook-log";
 import OpenAI from "openai";
-import Stripe from "stripe";
-import { insertTenantSchema } from "@shared/schema";
+import type Stripe from "stripe";
+import { getOpenAIClient, getStripeClient, getStripeWebhookSecret, verifyStripeEvent } from "./clients";
+import { insertTenantSchema, brandingConfigSchema, tenantKeysSchema, credentialPolicySchema, planCatalogSchema, tagRuleListSchema, contentPurchaseSchema, scriptPurchaseSchema, WHITE_LABEL_TIER, CREDIT_TYPES, SUBSCRIPTION_STATUSES, contentItemSchema, contentItemUpdateSchema, type CreditType, type SubscriptionStatus, type User, type Tenant, type BrandingConfig, type ContentRequest, type GenerationJob, type InsertWebhookDelivery } from "@shared/schema";
 import { promises as dns } from "dns";
 import https from "https";
 import http from "http";
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-// Initialize Stripe client (optional - for payment processing)
-let stripe: Stripe | null = null;
-if (process.env.STRIPE_SECRET_KEY) {
-  stripe = new Stripe(process.env.STRIPE_SECRET_KEY);
-}
-
-// Tenant middleware to detect and set tenant context
-interface TenantRequest extends Request {
-  tenant?: any;
-  tenantStripe?: Stripe;
-  tenantOpenAI?: OpenAI;
-}
-
-const tenantMiddleware = async (req: TenantRequest, res: Response, next: NextFunction) => {
+// Tenant middleware to detect and set tenant context.
+// API clients for the tenant are resolved per call by getOpenAIClient/getStripeClient.
+const tenantMiddleware = async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const host = req.get('host') || '';
     console.log('Tenant middleware - Host:', host, 'Path:', req.path);
@@ -40,17 +37,6 @@ const tenantMiddleware = async (req: TenantRequest, res: Response, next: NextFun
       if (tenant && tenant.isActive) {
         console.log('Found tenant via query param:', tenant.name);
         req.tenant = tenant;
-        
-        // Initialize tenant-specific API clients
-        if (tenant.stripeSecretKey) {
-          req.tenantStripe = new Stripe(tenant.stripeSecretKey);
-        }
-        
-        if (tenant.openaiApiKey) {
-          req.tenantOpenAI = new OpenAI({
-            apiKey: tenant.openaiApiKey,
-          });
-        }
       }
       return next();
     }
@@ -75,17 +61,6 @@ const tenantMiddleware = async (req: TenantRequest, res: Response, next: NextFun
         if (tenant && tenant.isActive) {
           console.log('Found tenant for development:', tenant.name);
           req.tenant = tenant;
-          
-          // Initialize tenant-specific API clients
-          if (tenant.stripeSecretKey) {
-            req.tenantStripe = new Stripe(tenant.stripeSecretKey);
-          }
-          
-          if (tenant.openaiApiKey) {
-            req.tenantOpenAI = new OpenAI({
-              apiKey: tenant.openaiApiKey,
-            });
-          }
         }
       }
       return next();
@@ -108,17 +83,6 @@ const tenantMiddleware = async (req: TenantRequest, res: Response, next: NextFun
     if (tenant && tenant.isActive) {
       console.log('Found tenant:', tenant.name);
       req.tenant = tenant;
-      
-      // Initialize tenant-specific API clients
-      if (tenant.stripeSecretKey) {
-        req.tenantStripe = new Stripe(tenant.stripeSecretKey);
-      }
-      
-      if (tenant.openaiApiKey) {
-        req.tenantOpenAI = new OpenAI({
-          apiKey: tenant.openaiApiKey,
-        });
-      }
     }
     
     next();
@@ -128,11 +92,66 @@ const tenantMiddleware = async (req: TenantRequest, res: Response, next: NextFun
   }
 };
 
+interface TenantOwnerRequest extends AuthRequest {
+  ownedTenant?: Tenant;
+}
+
+// Resolve the tenant owned by the signed-in user (use after isAuthenticated)
+const loadOwnedTenant = async (req: TenantOwnerRequest, res: Response, next: NextFunction) => {
+  try {
+    const tenant = await storage.getTenantByOwnerId(req.currentUser!.id);
+    if (!tenant) {
+      return res.status(404).json({ error: "No white label platform is linked to your account" });
+    }
+    req.ownedTenant = tenant;
+    next();
+  } catch (error) {
+    console.error('Owned tenant lookup error:', error);
+    res.status(500).json({ error: "Failed to load tenant" });
+  }
+};
+
+// Tenant row safe to send to the browser: secrets are masked, e.g. sk_live_…abcd
+function toPublicTenant(tenant: Tenant) {
+  return {
+    ...tenant,
+    stripeSecretKey: maskSecret(tenant.stripeSecretKey),
+    stripeWebhookSecret: maskSecret(tenant.stripeWebhookSecret),
+    openaiApiKey: maskSecret(tenant.openaiApiKey),
+    n8nApiKey: maskSecret(tenant.n8nApiKey),
+    highlevelWebhookSecret: maskSecret(tenant.highlevelWebhookSecret),
+    n8nCallbackSecret: maskSecret(tenant.n8nCallbackSecret)
+  };
+}
+
+// Which integration keys a tenant has configured, without exposing them
+function summarizeTenantKeys(tenant: Tenant) {
+  return {
+    n8nWebhookUrl: tenant.n8nWebhookUrl,
+    hasN8nApiKey: !!tenant.n8nApiKey,
+    n8nApiKey: maskSecret(tenant.n8nApiKey),
+    hasN8nCallbackSecret: !!tenant.n8nCallbackSecret,
+    n8nCallbackSecret: maskSecret(tenant.n8nCallbackSecret),
+    stripePublicKey: tenant.stripePublicKey,
+    hasStripeSecretKey: !!tenant.stripeSecretKey,
+    stripeSecretKey: maskSecret(tenant.stripeSecretKey),
+    hasStripeWebhookSecret: !!tenant.stripeWebhookSecret,
+    stripeWebhookSecret: maskSecret(tenant.stripeWebhookSecret),
+    hasOpenaiApiKey: !!tenant.openaiApiKey,
+    openaiApiKey: maskSecret(tenant.openaiApiKey),
+    hasHighlevelWebhookSecret: !!tenant.highlevelWebhookSecret,
+    highlevelWebhookSecret: maskSecret(tenant.highlevelWebhookSecret),
+    contentGenerator: tenant.contentGenerator,
+    openaiPolicy: tenant.openaiPolicy,
+    stripePolicy: tenant.stripePolicy
+  };
+}
+
 // Default brand tone (yours)
 const DEFAULT_BRAND_TONE = `Warm, encouraging, and empowering. I speak with authentic care and genuine heart for helping others succeed. My voice is supportive yet confident, using "you" to connect directly with my audience. I balance inspiration with practical action steps, always believing in people's potential while providing clear guidance. I use inclusive language that makes everyone feel welcomed and valued.`;
 
 // Analyze brand tone from user examples
-async function analyzeBrandTone(examples: string): Promise<string> {
+async function analyzeBrandTone(openai: OpenAI, examples: string): Promise<string> {
   try {
     const prompt = `Analyze the brand tone and voice from these writing examples. Describe the tone, style, personality, and communication approach in 2-3 sentences that can be used to replicate this voice:
 
@@ -160,7 +179,7 @@ Provide a clear description of the brand tone that captures:
 }
 
 // Generate a 30-second script for text-to-speech
-async function generateScript(industry: string, topics: string[]): Promise<string> {
+async function generateScript(openai: OpenAI, industry: string, topics: string[]): Promise<string> {
   try {
     const topicsText = topics.join(", ");
     
@@ -190,7 +209,7 @@ async function generateScript(industry: string, topics: string[]): Promise<strin
 }
 
 // Generate a daily script for text-to-speech with custom tone and CTA
-async function generateDailyScript(industry: string, topics: string[], day: number, brandTone: string = DEFAULT_BRAND_TONE, callToAction: string = ""): Promise<string> {
+async function generateDailyScript(openai: OpenAI, industry: string, topics: string[], day: number, brandTone: string = DEFAULT_BRAND_TONE, callToAction: string = ""): Promise<string> {
   try {
     // Create varied prompts based on the day to ensure unique content
     const topicIndex = (day - 1) % topics.length;
@@ -236,53 +255,1452 @@ async function generateDailyScript(industry: string, topics: string[], day: numb
       temperature: 0.9,
     });
 
-    return response.choices[0]?.message?.content?.trim() || `Today's focus in ${industry}: Build meaningful connections with your audience. Share your authentic story and valuable insights. Consistency beats perfection. Keep moving forward!`;
-  } catch (error) {
-    console.error(`Error generating daily script for day ${day}:`, error);
-    return `Day ${day} in your ${industry} journey: Share your expertise with confidence. Every piece of content you create adds value to someone's life. Stay consistent and keep growing!`;
-  }
-}
+    return response.choices[0]?.message?.content?.trim() || `Today's focus in ${industry}: Build meaningful connections with your audience. Share your authentic story and valuable insights. Consistency beats perfection. Keep moving forward!`;
+  } catch (error) {
+    console.error(`Error generating daily script for day ${day}:`, error);
+    return `Day ${day} in your ${industry} journey: Share your expertise with confidence. Every piece of content you create adds value to someone's life. Stay consistent and keep growing!`;
+  }
+}
+
+// Tenants whose Stripe policy falls back to the platform account check out on it, so their events
+// arrive at the platform endpoint. Checkouts record the tenant in their metadata to route them back.
+function stripeTenantMetadata(tenant?: Tenant | null): Record<string, string> {
+  return tenant ? { tenantId: tenant.id.toString() } : {};
+}
+
+function stripeEventMetadata(event: Stripe.Event): Stripe.Metadata | null {
+  if (event.type === 'invoice.payment_failed') {
+    return event.data.object.parent?.subscription_details?.metadata ?? null;
+  }
+  const object = event.data.object as { metadata?: Stripe.Metadata | null };
+  return object.metadata ?? null;
+}
+
+// The tenant a platform account event belongs to: the one named in its metadata, provided that
+// tenant really uses the platform account. Otherwise the main platform (null).
+async function resolvePlatformStripeTenant(event: Stripe.Event): Promise<Tenant | null> {
+  const tenantId = Number(stripeEventMetadata(event)?.tenantId);
+  if (!Number.isInteger(tenantId)) return null;
+
+  const tenant = await storage.getTenant(tenantId);
+  if (!tenant || getStripeClient(tenant) !== getStripeClient(null)) {
+    console.log(`Stripe event ${event.id} names tenant ${tenantId}, which doesn't use the platform account - handled as platform`);
+    return null;
+  }
+  return tenant;
+}
+
+// Tenant named in a webhook URL. Inactive tenants count as unknown, as in the host-based lookup.
+async function getWebhookTenant(subdomain: string): Promise<Tenant | undefined> {
+  const tenant = await storage.getTenantBySubdomain(subdomain);
+  return tenant?.isActive ? tenant : undefined;
+}
+
+// Database errors the webhook receivers let through (logging the delivery, looking up the tenant).
+// The receiver may already have answered the sender.
+function webhookFailed(res: Response, source: string, error: unknown) {
+  console.error(`${source} webhook error:`, error);
+  if (!res.headersSent) {
+    res.status(500).json({ error: "Failed to receive webhook" });
+  }
+}
+
+// Apply a logged Stripe event and record how it went; replays reuse this with the stored event
+async function processStripeDelivery(res: Response, deliveryId: number, event: Stripe.Event, tenant: Tenant | null) {
+  try {
+    const userId = await handleStripeEvent(event, tenant);
+    await storage.updateWebhookDelivery(deliveryId, {
+      status: 'processed',
+      outcome: `${event.type} ${event.id}`,
+      userId: userId ?? null,
+      processedAt: new Date()
+    });
+    res.json({ received: true, deliveryId });
+  } catch (error: any) {
+    // Failing the delivery makes Stripe retry; crediting is idempotent so retries are safe
+    console.error('Error processing webhook:', error);
+    await storage.updateWebhookDelivery(deliveryId, { status: 'failed', outcome: error.message || 'Unknown error', processedAt: new Date() }).catch(updateError => {
+      console.error('Error updating webhook delivery:', updateError);
+    });
+    res.status(500).send('Webhook processing failed');
+  }
+}
+
+// Verify a Stripe webhook with the platform or tenant signing secret, log it, then apply it
+async function receiveStripeWebhook(req: Request, res: Response, tenant: Tenant | null) {
+  const source = tenant ? `tenant ${tenant.id}` : 'platform';
+  const logDelivery = (delivery: Partial<InsertWebhookDelivery> & Pick<InsertWebhookDelivery, 'verified'>) =>
+    storage.createWebhookDelivery({
+      tenantId: tenant?.id ?? null,
+      source: 'stripe',
+      headers: redactHeaders(req.headers),
+      body: req.body ?? null,
+      ...delivery
+    });
+
+  const sig = req.headers['stripe-signature'];
+  if (!sig) {
+    await logDelivery({ ...rejectedDeliveryContent(req.rawBody), verified: false, status: 'rejected', outcome: 'Missing stripe signature', processedAt: new Date() });
+    return res.status(400).send('Missing stripe signature');
+  }
+
+  let webhookSecret: string | null;
+  try {
+    webhookSecret = getStripeWebhookSecret(tenant);
+  } catch (error) {
+    console.error(`Unable to read Stripe webhook secret for ${source}:`, error);
+    return res.status(500).send('Webhook secret unavailable');
+  }
+
+  if (!webhookSecret) {
+    console.log(`Rejected Stripe webhook for ${source} - no webhook secret configured`);
+    await logDelivery({ ...rejectedDeliveryContent(req.rawBody), verified: false, status: 'rejected', outcome: 'No webhook secret configured', processedAt: new Date() });
+    return res.status(400).send('Webhook secret not configured');
+  }
+
+  let event: Stripe.Event;
+  try {
+    event = verifyStripeEvent(req.rawBody || '', sig, webhookSecret);
+  } catch (err: any) {
+    console.log(`Webhook signature verification failed for ${source}.`, err.message);
+    await logDelivery({ ...rejectedDeliveryContent(req.rawBody), verified: false, status: 'rejected', outcome: err.message, processedAt: new Date() });
+    return res.status(400).send(`Webhook Error: ${err.message}`);
+  }
+
+  // Logged under the tenant it belongs to, so replays are applied to that tenant too
+  const eventTenant = tenant ?? await resolvePlatformStripeTenant(event);
+  const delivery = await logDelivery({ tenantId: eventTenant?.id ?? null, verified: true, verificationMethod: 'stripe-signature', status: 'received' });
+  await processStripeDelivery(res, delivery.id, event, eventTenant);
+}
+
+// Create or update the contact a verified HighLevel webhook describes and set their plan from its tags
+async function applyHighLevelContact(req: Request, contact: HighLevelContact, tenant: Tenant | null) {
+  const tenantId = tenant?.id ?? null;
+  let user = await storage.getUserByEmail(contact.email, tenantId);
+  if (!user) {
+    user = await storage.createUser({
+      tenantId,
+      name: `${contact.firstName || ''} ${contact.lastName || ''}`.trim() || 'Unknown User',
+      email: contact.email,
+      password: null // No shared default - the user sets their own password
+    });
+    console.log('Created new user:', user.email);
+    await sendUserInvitation(user);
+  }
+
+  // Map plan tags to a subscription tier with the tenant's tag rules
+  const evaluation = await resolveTierFromTags(tenantId, contact.tags);
+  const subscriptionTier = evaluation.tier;
+  console.log(`Tag rules matched: ${evaluation.matches.map(match => `"${match.tag}" -> ${match.rule.tier}`).join(', ') || 'none'}`);
+
+  // Paid tiers renew on the date HighLevel sends, or 30 days from now when it's missing or invalid
+  let endDate: Date | null = null;
+  if (subscriptionTier !== "free") {
+    endDate = contact.subscriptionEndDate ? new Date(contact.subscriptionEndDate) : null;
+    if (!endDate || isNaN(endDate.getTime())) {
+      endDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+    }
+  }
+
+  // Stripe subscribers keep the tier Stripe reports and only get their tags updated
+  const updatedUser = user.stripeSubscriptionId
+    ? await storage.updateUserSubscription(user.id, { tags: contact.tags })
+    : await storage.updateUserSubscription(user.id, {
+        subscriptionTier,
+        subscriptionStatus: subscriptionTier === "free" ? "inactive" : "active",
+        subscriptionEndDate: endDate,
+        tags: contact.tags,
+        ...planAllowances(tenant, subscriptionTier)
+      });
+
+  const outcome = `${updatedUser.email}: tier ${updatedUser.subscriptionTier}${user.stripeSubscriptionId ? " (managed by Stripe)" : ""}, white label ${evaluation.whiteLabelAccess ? "yes" : "no"}`;
+  console.log(`HighLevel webhook updated ${outcome}`);
+
+  return {
+    user: updatedUser,
+    outcome,
+    response: {
+      success: true,
+      message: `User updated - Tier: ${updatedUser.subscriptionTier}, White Label: ${evaluation.whiteLabelAccess}`,
+      user: {
+        email: updatedUser.email,
+        tier: updatedUser.subscriptionTier,
+        limit: updatedUser.generationsLimit,
+        whiteLabelAccess: evaluation.whiteLabelAccess,
+        tags: contact.tags
+      }
+    }
+  };
+}
+
+// Apply a logged HighLevel delivery and record how it went; replays reuse this with the stored body
+async function processHighLevelDelivery(req: Request, res: Response, deliveryId: number, body: unknown, tenant: Tenant | null) {
+  const parsed = parseHighLevelContact(body);
+  if (!parsed.success) {
+    const outcome = parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    await storage.updateWebhookDelivery(deliveryId, { status: 'invalid', outcome, processedAt: new Date() });
+    return res.status(400).json({ success: false, error: "Invalid contact payload", details: parsed.error.errors, deliveryId });
+  }
+
+  try {
+    const { user, outcome, response } = await applyHighLevelContact(req, parsed.data, tenant);
+    await storage.updateWebhookDelivery(deliveryId, { status: 'processed', outcome, userId: user.id, processedAt: new Date() });
+    res.json({ ...response, deliveryId });
+  } catch (error: any) {
+    console.error('HighLevel webhook processing error:', error);
+    await storage.updateWebhookDelivery(deliveryId, { status: 'failed', outcome: error.message || 'Unknown error', processedAt: new Date() }).catch(updateError => {
+      console.error('Error updating webhook delivery:', updateError);
+    });
+    res.status(500).json({ success: false, error: "Failed to process webhook", deliveryId });
+  }
+}
+
+// Verify a HighLevel webhook with the platform or tenant shared secret, log it, then apply it
+async function receiveHighLevelWebhook(req: Request, res: Response, tenant: Tenant | null) {
+  const source = tenant ? `tenant ${tenant.id}` : 'platform';
+
+  let secret: string | null;
+  try {
+    secret = getHighLevelWebhookSecret(tenant);
+  } catch (error) {
+    console.error(`Unable to read HighLevel webhook secret for ${source}:`, error);
+    return res.status(500).json({ error: "Webhook secret unavailable" });
+  }
+
+  const verification = verifyWebhookRequest(req.headers, req.rawBody, secret);
+  const delivery = await storage.createWebhookDelivery({
+    tenantId: tenant?.id ?? null,
+    source: 'highlevel',
+    ...(verification.verified
+      ? { headers: redactHeaders(req.headers), body: req.body ?? null }
+      : rejectedDeliveryContent(req.rawBody)),
+    verified: verification.verified,
+    verificationMethod: verification.verified ? verification.method : null,
+    status: verification.verified ? 'received' : 'rejected',
+    outcome: verification.verified ? null : verification.error,
+    processedAt: verification.verified ? null : new Date()
+  });
+
+  if (!verification.verified) {
+    console.log(`Rejected HighLevel webhook for ${source}: ${verification.error}`);
+    return res.status(401).json({ error: verification.error, deliveryId: delivery.id });
+  }
+
+  await processHighLevelDelivery(req, res, delivery.id, req.body, tenant);
+}
+
+// Credit purchases to the user they were made for, within the tenant that received the payment.
+// Returns the user the event was applied to, if any.
+async function handleStripeEvent(event: Stripe.Event, tenant: Tenant | null): Promise<number | undefined> {
+  const tenantId = tenant?.id ?? null;
+  let linkedUserId: number | undefined;
+
+  switch (event.type) {
+    case 'checkout.session.completed': {
+      const session = event.data.object as Stripe.Checkout.Session;
+      if (!session.metadata) {
+        console.log('No metadata found in session');
+        break;
+      }
+
+      if (session.mode === 'subscription') {
+        // The customer.subscription.* events carry the details; this links the subscription early
+        if (typeof session.subscription === 'string') {
+          linkedUserId = await syncStripeSubscription(session.subscription, tenant);
+        }
+        break;
+      }
+
+      // Malformed sessions are logged and acknowledged; throwing would only make Stripe retry them
+      const userId = Number(session.metadata.userId);
+      if (!Number.isInteger(userId) || userId <= 0) {
+        console.log(`Checkout ${session.id} has invalid user ID ${session.metadata.userId} - not credited`);
+        break;
+      }
+      const purchaseType = session.metadata.type;
+      const purchaser = await storage.getUser(userId, tenantId);
+      if (!purchaser) {
+        console.log(`Checkout ${session.id} references user ${userId}, who is not in this tenant - not credited`);
+        break;
+      }
+      linkedUserId = purchaser.id;
+      
+      const isScriptPurchase = purchaseType === 'script_generation_purchase';
+      if (!isScriptPurchase && purchaseType !== 'content_generation_purchase') {
+        console.log(`Checkout ${session.id} has unknown purchase type ${purchaseType}`);
+        break;
+      }
+
+      const countValue = isScriptPurchase ? session.metadata.scriptCount : session.metadata.generationCount;
+      const generationCount = Number(countValue);
+      if (!Number.isInteger(generationCount) || generationCount <= 0) {
+        console.log(`Checkout ${session.id} has invalid generation count ${countValue} - not credited`);
+        break;
+      }
+      const paymentIntentId = typeof session.payment_intent === 'string' ? session.payment_intent : null;
+
+      // Recorded and credited together - replays of this event or payment intent are skipped
+      const creditedUser = await storage.applyStripeCredit({
+        event: {
+          tenantId,
+          eventId: event.id,
+          paymentIntentId,
+          type: event.type,
+          source: 'webhook',
+          userId
+        },
+        purchase: {
+          tenantId,
+          userId,
+          generationsAdded: generationCount,
+          amountPaid: session.amount_total || 0,
+          stripePaymentIntentId: paymentIntentId,
+          paymentStatus: "completed"
+        },
+        generationType: isScriptPurchase ? 'script' : 'content'
+      });
+
+      if (creditedUser) {
+        console.log(`Added ${generationCount} ${isScriptPurchase ? 'script' : 'content'} generations to user ${userId}`);
+      } else {
+        console.log(`Stripe event ${event.id} already applied - skipping`);
+      }
+      break;
+    }
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription;
+      linkedUserId = await syncStripeSubscription(subscription.id, tenant);
+      break;
+    }
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice;
+      const customerId = typeof invoice.customer === 'string' ? invoice.customer : invoice.customer?.id;
+      const user = customerId ? await storage.getUserByStripeCustomerId(customerId, tenantId) : undefined;
+      if (!user) {
+        console.log(`Invoice ${invoice.id} failed for unknown customer ${customerId}`);
+        break;
+      }
+
+      linkedUserId = user.id;
+      await storage.updateUserSubscription(user.id, { subscriptionStatus: 'past_due' });
+      console.log(`Marked user ${user.id} past due after failed invoice ${invoice.id}`);
+      break;
+    }
+    case 'charge.refunded': {
+      const charge = event.data.object as Stripe.Charge;
+      const paymentIntentId = typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+      if (!paymentIntentId) {
+        console.log(`Refunded charge ${charge.id} has no payment intent - nothing to reverse`);
+        break;
+      }
+
+      // Takes back the refunded share of the credits; partial refunds reverse proportionally
+      const refundedPurchase = await storage.applyStripeRefund({
+        event: {
+          tenantId,
+          eventId: event.id,
+          paymentIntentId: null,
+          type: event.type,
+          source: 'webhook',
+          userId: null
+        },
+        tenantId,
+        paymentIntentId,
+        amountRefunded: charge.amount_refunded
+      });
+
+      if (refundedPurchase) {
+        linkedUserId = refundedPurchase.userId;
+        console.log(`Purchase ${refundedPurchase.id} for user ${refundedPurchase.userId} marked ${refundedPurchase.paymentStatus}`);
+      } else {
+        console.log(`Refund event ${event.id} already applied or matches no purchase - skipping`);
+      }
+      break;
+    }
+    default:
+      console.log(`Unhandled event type ${event.type}`);
+  }
+  return linkedUserId;
+}
+
+// Map a Stripe subscription status onto users.subscriptionStatus
+function toSubscriptionStatus(status: Stripe.Subscription.Status): SubscriptionStatus {
+  switch (status) {
+    case 'active':
+    case 'trialing':
+      return 'active';
+    case 'past_due':
+    case 'unpaid':
+      return 'past_due';
+    case 'canceled':
+    case 'incomplete_expired':
+      return 'canceled';
+    default:
+      return 'inactive';
+  }
+}
+
+// Copy a subscription's current state from Stripe onto its user. The subscription is re-fetched
+// rather than taken from the event so that retried or out-of-order events can't apply stale state.
+// Returns the user the subscription belongs to.
+async function syncStripeSubscription(subscriptionId: string, tenant: Tenant | null): Promise<number | undefined> {
+  const stripe = getStripeClient(tenant);
+  if (!stripe) {
+    throw new Error('Stripe is not configured for this tenant');
+  }
+
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const tenantId = tenant?.id ?? null;
+  const customerId = typeof subscription.customer === 'string' ? subscription.customer : subscription.customer.id;
+
+  let user = await storage.getUserByStripeCustomerId(customerId, tenantId);
+  if (!user && subscription.metadata.userId) {
+    user = await storage.getUser(parseInt(subscription.metadata.userId), tenantId);
+  }
+  if (!user) {
+    console.log(`Subscription ${subscription.id} has no matching user in this tenant`);
+    return;
+  }
+
+  const item = subscription.items.data[0];
+  const periodStart = item?.current_period_start ? new Date(item.current_period_start * 1000) : null;
+  const subscriptionEndDate = item?.current_period_end ? new Date(item.current_period_end * 1000) : null;
+  const status = toSubscriptionStatus(subscription.status);
+
+  if (status === 'canceled') {
+    // Ignore cancellations of a subscription the user has since replaced
+    if (user.stripeSubscriptionId && user.stripeSubscriptionId !== subscription.id) return user.id;
+
+    await storage.updateUserSubscription(user.id, {
+      stripeCustomerId: customerId,
+      stripeSubscriptionId: null,
+      subscriptionTier: 'free',
+      subscriptionStatus: 'canceled',
+      subscriptionEndDate,
+      ...planAllowances(tenant, 'free')
+    });
+    console.log(`Subscription ${subscription.id} ended for user ${user.id}`);
+    return user.id;
+  }
+
+  // The price follows plan changes made in the Customer Portal; the checkout metadata doesn't
+  const plan = (item && findPlanByStripePrice(tenant, item.price.id))
+    ?? (subscription.metadata.tier ? findPlan(tenant, subscription.metadata.tier) : undefined);
+  if (!plan) {
+    console.log(`Subscription ${subscription.id} has unknown price ${item?.price.id} and tier ${subscription.metadata.tier}`);
+    return user.id;
+  }
+  const tier = plan.tier;
+
+  // A renewal moves the period start forward, which grants a fresh allowance for the new period
+  const isNewPeriod = !!periodStart && user.currentPeriodStart?.getTime() !== periodStart.getTime();
+
+  await storage.updateUserSubscription(user.id, {
+    stripeCustomerId: customerId,
+    stripeSubscriptionId: subscription.id,
+    subscriptionTier: tier,
+    subscriptionStatus: status,
+    subscriptionEndDate,
+    generationsLimit: plan.generationsLimit,
+    scriptGenerationsLimit: plan.scriptGenerationsLimit,
+    ...(periodStart && { currentPeriodStart: periodStart, currentPeriodEnd: subscriptionEndDate })
+  });
+  console.log(`Synced subscription ${subscription.id} for user ${user.id}: ${tier} (${subscription.status})${isNewPeriod ? ', new billing period' : ''}`);
+  return user.id;
+}
+
+// Store the CSV (or Google Drive file) an n8n workflow returned for a content request.
+// Returns a summary for the webhook delivery log.
+async function applyWorkflowResult(contentRequest: ContentRequest, responseData: any): Promise<string> {
+  let csvBase64 = null;
+  let filename = 'xauti-content.csv';
+
+  if (responseData.csvBase64) {
+    csvBase64 = responseData.csvBase64;
+    filename = responseData.filename || filename;
+  } else if (responseData.base64) {
+    csvBase64 = responseData.base64;
+    filename = responseData.name || filename;
+  } else if (responseData.content) {
+    csvBase64 = responseData.content;
+    filename = responseData.filename || responseData.name || filename;
+  } else if (responseData.kind === 'drive#file') {
+    // Google Drive file - provide direct download instructions
+    console.log('Detected Google Drive file response');
+
+    const downloadUrl = responseData.webContentLink;
+    filename = responseData.name || 'xauti-content.csv';
+
+    // Create instructions for accessing the Google Drive file
+    const instructionsContent = `YOUR 30 DAYS OF CONTENT IS READY!
+
+File Details:
+- Name: ${filename}
+- Size: ${Math.round(responseData.size / 1024)} KB
+- Created: ${new Date(responseData.createdTime).toLocaleDateString()}
+
+TO DOWNLOAD YOUR CONTENT:
+Click the download button below to open your CSV file directly from Google Drive.
+
+Direct Download Link:
+${downloadUrl}
+
+WHAT'S INCLUDED:
+✓ 30 days of personalized social media content
+✓ Platform-specific formatting (Facebook, Instagram, LinkedIn, etc.)
+✓ Hashtags and engagement prompts
+✓ Posting schedule and timing recommendations
+
+NEED HELP?
+If the download doesn't work automatically:
+1. Right-click the download button
+2. Select "Open link in new tab"
+3. Your CSV file will download immediately
+
+File ID: ${responseData.id}
+Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
+
+    // Store the download instructions and URL in the CSV content
+    await storage.replaceContentItems(contentRequest, []);
+    await storage.updateContentRequest(contentRequest.id, {
+      status: "completed",
+      csvFilename: filename,
+      csvBase64: Buffer.from(instructionsContent, 'utf-8').toString('base64'),
+      errorMessage: null,
+      completedAt: new Date()
+    });
+
+    console.log(`Google Drive file stored for request ${contentRequest.id}: ${downloadUrl}`);
+    return `Google Drive file ${filename} stored for request ${contentRequest.id}`;
+  } else {
+    // Fallback - create a simple CSV
+    console.log('Unknown response format, creating fallback CSV');
+    const topics = Array.isArray(contentRequest.selectedTopics) ? contentRequest.selectedTopics.join('; ') : '';
+    const csvContent = `Industry,Topics,Status,Timestamp\n"${contentRequest.industry}","${topics}","Completed","${new Date().toISOString()}"`;
+    csvBase64 = btoa(csvContent);
+    filename = 'xauti-content.csv';
+  }
+
+  // A CSV of posts is kept as content_items rows (the download is rebuilt from them); anything
+  // else is stored as the file it came as
+  const items = await storage.replaceContentItems(contentRequest, parseContentItemsCsv(decodeCsvBase64(csvBase64)));
+  await storage.updateContentRequest(contentRequest.id, {
+    status: "completed",
+    csvFilename: filename,
+    csvBase64: items.length > 0 ? null : csvBase64,
+    errorMessage: null,
+    completedAt: new Date()
+  });
+
+  console.log(`Content generation completed for request ${contentRequest.id}`);
+  return items.length > 0
+    ? `${items.length} posts from ${filename} stored for request ${contentRequest.id}`
+    : `${filename} stored for request ${contentRequest.id}`;
+}
+
+// Apply a logged n8n workflow result to its content request; replays reuse this with the stored body.
+// Results that aren't JSON objects fail the request.
+async function processWorkflowDelivery(deliveryId: number, contentRequest: ContentRequest, responseData: unknown): Promise<boolean> {
+  if (!responseData || typeof responseData !== 'object' || Array.isArray(responseData)) {
+    const outcome = 'Workflow response is not a JSON object';
+    await storage.updateWebhookDelivery(deliveryId, { status: 'invalid', outcome, processedAt: new Date() });
+    await failContentRequest(contentRequest.id, `Error processing response: ${outcome}`);
+    return false;
+  }
+
+  try {
+    const outcome = await applyWorkflowResult(contentRequest, responseData);
+    await storage.updateWebhookDelivery(deliveryId, { status: 'processed', outcome, processedAt: new Date() });
+    return true;
+  } catch (error: any) {
+    console.log('Error processing n8n response:', error);
+    await storage.updateWebhookDelivery(deliveryId, { status: 'failed', outcome: error.message || 'Unknown error', processedAt: new Date() }).catch(updateError => {
+      console.error('Error updating webhook delivery:', updateError);
+    });
+    await failContentRequest(contentRequest.id, `Error processing response: ${error}`);
+    return false;
+  }
+}
+
+// Apply a logged n8n callback (progress, final CSV, Drive file or error) to its content request.
+// Replays reuse this with the stored body.
+async function processWorkflowCallback(res: Response, deliveryId: number, contentRequest: ContentRequest, body: unknown) {
+  const parsed = workflowCallbackSchema.safeParse(body);
+  if (!parsed.success || parsed.data.requestId !== contentRequest.id) {
+    const outcome = parsed.success
+      ? `requestId ${parsed.data.requestId} does not match the callback URL`
+      : parsed.error.errors.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+    await storage.updateWebhookDelivery(deliveryId, { status: 'invalid', outcome, processedAt: new Date() });
+    return res.status(400).json({ error: "Invalid callback payload", details: outcome, deliveryId });
+  }
+
+  // Late or repeated callbacks don't reopen a finished request
+  if (contentRequest.status !== "processing") {
+    const outcome = `Request is already ${contentRequest.status} - ${parsed.data.type} callback ignored`;
+    await storage.updateWebhookDelivery(deliveryId, { status: 'processed', outcome, processedAt: new Date() });
+    return res.json({ success: true, ignored: true, status: contentRequest.status, deliveryId });
+  }
+
+  try {
+    const callback = parsed.data;
+    let outcome: string;
+    switch (callback.type) {
+      case "progress":
+        await storage.updateContentRequest(contentRequest.id, {
+          progress: callback.percent !== undefined ? Math.round(callback.percent) : contentRequest.progress,
+          progressMessage: callback.message ?? contentRequest.progressMessage
+        });
+        outcome = `Progress ${Math.round(callback.percent ?? contentRequest.progress ?? 0)}%${callback.message ? `: ${callback.message}` : ''}`;
+        break;
+      case "csv":
+        outcome = await applyWorkflowResult(contentRequest, {
+          csvBase64: callback.csvBase64 || Buffer.from(callback.csv!, 'utf-8').toString('base64'),
+          filename: callback.filename
+        });
+        await storage.updateContentRequest(contentRequest.id, { progress: 100 });
+        await settleWaitingJob(contentRequest.id, "completed");
+        break;
+      case "drive_file":
+        outcome = await applyWorkflowResult(contentRequest, { ...callback.file, kind: 'drive#file' });
+        await storage.updateContentRequest(contentRequest.id, { progress: 100 });
+        await settleWaitingJob(contentRequest.id, "completed");
+        break;
+      case "error":
+        await failContentRequest(contentRequest.id, `Workflow error: ${callback.error}`);
+        await settleWaitingJob(contentRequest.id, "dead", callback.error);
+        outcome = `Request failed: ${callback.error}`;
+        break;
+    }
+
+    await storage.updateWebhookDelivery(deliveryId, { status: 'processed', outcome, processedAt: new Date() });
+    res.json({ success: true, deliveryId });
+  } catch (error: any) {
+    console.error('n8n callback processing error:', error);
+    await storage.updateWebhookDelivery(deliveryId, { status: 'failed', outcome: error.message || 'Unknown error', processedAt: new Date() }).catch(updateError => {
+      console.error('Error updating webhook delivery:', updateError);
+    });
+    res.status(500).json({ error: "Failed to process callback", deliveryId });
+  }
+}
+
+// Verify an n8n callback with the platform or tenant callback secret, log it, then apply it
+async function receiveWorkflowCallback(req: Request, res: Response, tenant: Tenant | null) {
+  const source = tenant ? `tenant ${tenant.id}` : 'platform';
+
+  let secret: string | null;
+  try {
+    secret = getWorkflowCallbackSecret(tenant);
+  } catch (error) {
+    console.error(`Unable to read n8n callback secret for ${source}:`, error);
+    return res.status(500).json({ error: "Callback secret unavailable" });
+  }
+
+  const verification = verifyWebhookRequest(req.headers, req.rawBody, secret);
+  const contentRequest = await storage.getContentRequest(parseInt(req.params.requestId), tenant?.id ?? null);
+  const delivery = await storage.createWebhookDelivery({
+    tenantId: tenant?.id ?? null,
+    source: 'n8n',
+    ...(verification.verified
+      ? { headers: redactHeaders(req.headers), body: req.body ?? null }
+      : rejectedDeliveryContent(req.rawBody)),
+    verified: verification.verified,
+    verificationMethod: verification.verified ? verification.method : null,
+    status: verification.verified ? 'received' : 'rejected',
+    outcome: verification.verified ? null : verification.error,
+    userId: contentRequest?.userId ?? null,
+    contentRequestId: contentRequest?.id ?? null,
+    processedAt: verification.verified ? null : new Date()
+  });
+
+  if (!verification.verified) {
+    console.log(`Rejected n8n callback for ${source}: ${verification.error}`);
+    return res.status(401).json({ error: verification.error, deliveryId: delivery.id });
+  }
+  if (!contentRequest) {
+    await storage.updateWebhookDelivery(delivery.id, { status: 'invalid', outcome: 'Unknown content request', processedAt: new Date() });
+    return res.status(404).json({ error: "Content request not found", deliveryId: delivery.id });
+  }
+
+  await processWorkflowCallback(res, delivery.id, contentRequest, req.body);
+}
+
+// Requests left processing this long (e.g. n8n accepted the run but never answered) are failed
+const CONTENT_REQUEST_DEADLINE_MS = 30 * 60 * 1000;
+
+// Mark a content request failed and give back the content credit it reserved
+async function failContentRequest(contentRequestId: number, errorMessage: string) {
+  await storage.updateContentRequest(contentRequestId, {
+    status: "failed",
+    errorMessage,
+    completedAt: new Date()
+  });
+
+  const released = await storage.releaseCredit(contentRequestId, 'content', `Generation failed (request #${contentRequestId})`);
+  if (released) {
+    console.log(`Returned content credit to user ${released.userId} for failed request ${contentRequestId}`);
+  }
+}
+
+// Script runs generate 30 OpenAI completions; each attempt gets 10 minutes within a 20 minute deadline
+const SCRIPT_ATTEMPT_TIMEOUT_MS = 10 * 60 * 1000;
+const SCRIPT_JOB_DEADLINE_MS = 20 * 60 * 1000;
+
+function scriptFilename(industry: string) {
+  return `scripts_${industry.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date().toISOString().split('T')[0]}.csv`;
+}
+
+// The request's calendar as CSV text: built from its content items, or the file stored as it came
+async function buildContentCsv(contentRequest: ContentRequest): Promise<string | null> {
+  const items = await storage.getContentItems(contentRequest.id);
+  if (items.length > 0) return contentItemsToCsv(items);
+  return contentRequest.csvBase64 ? decodeCsvBase64(contentRequest.csvBase64) : null;
+}
+
+// Content job with the built-in generator: write the calendar and report progress per batch of days
+async function runNativeContentJob(job: GenerationJob, contentRequest: ContentRequest, tenant: Tenant | null, signal: AbortSignal): Promise<JobOutcome> {
+  const openai = getOpenAIClient(tenant);
+  if (!openai) {
+    throw new Error("AI generation is not configured for this platform");
+  }
+
+  const { industry, selected_topics } = job.payload as { industry: string; selected_topics: string[] };
+  console.log(`Generating calendar for request ${contentRequest.id} natively (attempt ${job.attempts})`);
+  const days = await generateContentCalendar(openai, {
+    industry,
+    topics: selected_topics,
+    startDate: contentRequest.createdAt,
+    signal,
+    onProgress: async (daysDone, totalDays) => {
+      await storage.updateContentRequest(contentRequest.id, {
+        progress: Math.round((daysDone / totalDays) * 100),
+        progressMessage: `Planned ${daysDone} of ${totalDays} days`
+      });
+    }
+  });
+
+  // The request may have been failed (e.g. past its deadline) while the calendar was written
+  const current = await storage.getContentRequest(contentRequest.id, job.tenantId);
+  if (current?.status !== "processing") {
+    console.log(`Content request ${contentRequest.id} is ${current?.status ?? 'deleted'} - discarding the generated calendar`);
+    return { status: "completed" };
+  }
+
+  await storage.replaceContentItems(contentRequest, calendarDaysToItems(days));
+  await storage.updateContentRequest(contentRequest.id, {
+    status: "completed",
+    csvFilename: `xauti-content-${industry.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.csv`,
+    csvBase64: null,
+    errorMessage: null,
+    progress: 100,
+    completedAt: new Date()
+  });
+  console.log(`Native calendar stored for request ${contentRequest.id}`);
+  return { status: "completed" };
+}
+
+// Content job: send the request to the tenant's n8n workflow and store what it returns.
+// An empty response means the workflow will finish on its own, so the job waits for it.
+async function runContentJob(job: GenerationJob, signal: AbortSignal): Promise<JobOutcome> {
+  const contentRequest = await storage.getContentRequest(job.contentRequestId, job.tenantId);
+  if (!contentRequest || contentRequest.status !== "processing") {
+    console.log(`Content request ${job.contentRequestId} is no longer processing - nothing to do`);
+    return { status: "completed" };
+  }
+
+  const tenant = job.tenantId ? await storage.getTenant(job.tenantId) : null;
+  if ((job.payload as { generator?: string }).generator === "native") {
+    return runNativeContentJob(job, contentRequest, tenant ?? null, signal);
+  }
+
+  const workflow = resolveWorkflowEndpoint(tenant);
+  const { industry, selected_topics, callbackUrl } = job.payload as { industry: string; selected_topics: string[]; callbackUrl?: string };
+  const requestBody = { industry, selected_topics, requestId: contentRequest.id, callbackUrl };
+  console.log(`Sending request ${contentRequest.id} to ${workflow.source} n8n workflow (attempt ${job.attempts})`);
+
+  const n8nResponse = await dispatchWorkflow(workflow, requestBody, signal);
+  const responseText = await n8nResponse.text();
+
+  // A callback may have finished the request while the workflow was still answering
+  const current = await storage.getContentRequest(contentRequest.id, job.tenantId);
+  if (current?.status !== "processing") {
+    console.log(`Content request ${contentRequest.id} was ${current?.status ?? 'deleted'} by a callback - ignoring the workflow response`);
+    return { status: "completed" };
+  }
+
+  // The workflow answers on the connection we opened, so its response is logged as verified
+  const logWorkflowResponse = (body: unknown, delivery: Partial<InsertWebhookDelivery>) =>
+    storage.createWebhookDelivery({
+      tenantId: contentRequest.tenantId,
+      source: 'n8n',
+      headers: redactHeaders(Object.fromEntries(n8nResponse.headers.entries())),
+      body: body as InsertWebhookDelivery["body"],
+      verified: true,
+      verificationMethod: 'workflow-response',
+      userId: contentRequest.userId,
+      contentRequestId: contentRequest.id,
+      ...delivery
+    });
+
+  if (!n8nResponse.ok) {
+    await logWorkflowResponse(responseText, {
+      status: 'failed',
+      outcome: `n8n webhook failed with status: ${n8nResponse.status}`,
+      processedAt: new Date()
+    });
+    throw new Error(`n8n webhook failed with status: ${n8nResponse.status}`);
+  }
+
+  if (!responseText || responseText.trim() === '') {
+    console.log(`Empty response from n8n for request ${contentRequest.id} - waiting for its callback`);
+    return { status: "waiting" };
+  }
+
+  let responseData: unknown = responseText;
+  try {
+    responseData = JSON.parse(responseText);
+  } catch {
+    console.log('n8n response is not JSON:', responseText.slice(0, 500));
+  }
+
+  const delivery = await logWorkflowResponse(responseData, { status: 'received' });
+  await processWorkflowDelivery(delivery.id, contentRequest, responseData);
+  return { status: "completed" };
+}
+
+// Script job: write 30 daily scripts for a completed content request
+async function runScriptJob(job: GenerationJob, signal: AbortSignal): Promise<JobOutcome> {
+  const contentRequest = await storage.getContentRequest(job.contentRequestId, job.tenantId);
+  if (!contentRequest) {
+    console.log(`Content request ${job.contentRequestId} was deleted - skipping scripts`);
+    return { status: "completed" };
+  }
+
+  const tenant = job.tenantId ? await storage.getTenant(job.tenantId) : null;
+  const openai = getOpenAIClient(tenant);
+  if (!openai) {
+    throw new Error("AI generation is not configured for this platform");
+  }
+
+  const { brandTone, callToAction } = job.payload as { brandTone: string; callToAction: string };
+  const industry = contentRequest.industry;
+  const topics = Array.isArray(contentRequest.selectedTopics)
+    ? contentRequest.selectedTopics
+    : [];
+
+  // Generate 30 daily scripts with custom tone
+  const scripts = [];
+  const totalDays = 30;
+  for (let day = 1; day <= totalDays; day++) {
+    signal.throwIfAborted();
+    try {
+      const dailyScript = await generateDailyScript(openai, industry, topics, day, brandTone, callToAction);
+      scripts.push({
+        day,
+        script: dailyScript
+      });
+    } catch (error) {
+      console.error(`Error generating script for day ${day}:`, error);
+      scripts.push({
+        day,
+        script: `Day ${day}: Share your expertise in ${industry}. Connect with your audience through authentic storytelling and valuable insights. Your voice matters.`
+      });
+    }
+    publishScriptDay(contentRequest.id, day, totalDays);
+  }
+
+  // Create CSV content with daily scripts
+  const csvHeader = "Day,Script\n";
+  const csvRows = scripts.map(s => `${s.day},"${s.script.replace(/"/g, '""')}"`).join('\n');
+  const scriptBase64 = Buffer.from(csvHeader + csvRows, 'utf-8').toString('base64');
+
+  await storage.updateContentRequest(contentRequest.id, {
+    scriptContent: scriptBase64,
+    scriptStatus: "completed"
+  });
+  console.log(`Scripts completed for request ${contentRequest.id}`);
+  return { status: "completed" };
+}
+
+
+// 403 body for a user who is out of credits, with what they can buy to continue
+async function creditLimitPayload(userId: number, creditType: CreditType, tenant?: Tenant | null) {
+  // Re-read the user: the credit check may have rolled them into a new billing period
+  const user = (await storage.getUser(userId))!;
+  const balance = (await storage.getCreditBalances(user))[creditType];
+  const tier = user.subscriptionTier || 'free';
+  const plan = findPlan(tenant, tier);
+  const label = creditType === 'script' ? 'script generation' : 'generation';
+  const unitPrice = plan?.creditPrices[creditType] ?? null;
+
+  return {
+    success: false,
+    error: "GENERATION_LIMIT_EXCEEDED",
+    message: balance.allowance > 0
+      ? `You've used all ${balance.allowance} ${label}s in your plan this period.`
+      : `Your plan doesn't include ${label}s and you have no purchased ${label}s left.`,
+    creditType,
+    currentTier: tier,
+    tierName: plan?.name ?? tier,
+    used: balance.used,
+    allowance: balance.allowance,
+    purchased: balance.purchased,
+    periodEnd: user.currentPeriodEnd,
+    purchase: unitPrice !== null ? {
+      endpoint: creditType === 'script' ? "/api/purchase-script-generations" : "/api/purchase-generations",
+      pricePerCredit: unitPrice / 100
+    } : null
+  };
+}
+
+// Validate tag rules from the admin UI; every rule must target a tier in the scope's plan catalog
+function parseTagRules(body: unknown, tenant?: Tenant | null) {
+  const rules = tagRuleListSchema.parse(body);
+  const unknownTier = rules.find(rule => rule.tier !== WHITE_LABEL_TIER && !findPlan(tenant, rule.tier));
+  if (unknownTier) {
+    throw new Error(`Unknown plan "${unknownTier.tier}" for pattern "${unknownTier.pattern}"`);
+  }
+  return rules;
+}
+
+// The signed-in user as returned to the client, with usage and balances derived from the credit ledger
+async function toAccountUser(user: User) {
+  const balances = await storage.getCreditBalances(user);
+  return {
+    ...toPublicUser(user),
+    subscriptionTier: user.subscriptionTier || 'free',
+    subscriptionStatus: user.subscriptionStatus || 'inactive',
+    generationsLimit: balances.content.allowance,
+    generationsUsed: balances.content.used,
+    scriptGenerationsLimit: balances.script.allowance,
+    scriptGenerationsUsed: balances.script.used,
+    purchasedGenerations: balances.content.purchased,
+    purchasedScriptGenerations: balances.script.purchased,
+    tags: user.tags || []
+  };
+}
+
+// Email a first-login invitation so users created outside the sign-in form can set a password
+async function sendUserInvitation(user: User): Promise<void> {
+  try {
+    const tenant = user.tenantId ? await storage.getTenant(user.tenantId) : undefined;
+    const token = createPasswordToken(user, "invite");
+    await sendInvitationEmail(user.email, user.name, `${getAppUrl(tenant)}/reset-password?token=${encodeURIComponent(token)}`);
+    console.log(`Invitation sent to ${user.email}`);
+  } catch (error) {
+    console.error(`Failed to send invitation to ${user.email}:`, error);
+  }
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  
+  // Session-backed authentication
+  setupAuth(app);
+
+  // Apply tenant middleware to all routes
+  app.use(tenantMiddleware);
+
+  // Content and script generation run on the in-process job queue (started in index.ts)
+  registerJobHandler('content', {
+    attemptTimeoutMs: WORKFLOW_TIMEOUT_MS,
+    run: runContentJob,
+    onDeadLetter: (job, error) => failContentRequest(job.contentRequestId, error)
+  });
+
+  registerJobHandler('script', {
+    attemptTimeoutMs: SCRIPT_ATTEMPT_TIMEOUT_MS,
+    run: runScriptJob,
+    onDeadLetter: async (job, error) => {
+      await storage.updateContentRequest(job.contentRequestId, { scriptStatus: "failed" });
+      await storage.releaseCredit(job.contentRequestId, 'script', `Script generation failed (request #${job.contentRequestId}): ${error}`);
+    }
+  });
+  
+  // Every /api/admin route requires a signed-in platform admin
+  app.use("/api/admin", isAuthenticated, requireRole("platform_admin"));
+
+  // Admin routes for managing white label clients
+  app.get("/api/admin/tenants", async (req, res) => {
+    try {
+      const tenants = await storage.getAllTenants();
+      res.json(tenants.map(toPublicTenant));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tenants" });
+    }
+  });
+
+  app.post("/api/admin/tenants", async (req, res) => {
+    try {
+      const { ownerEmail, ...tenantData } = req.body;
+      const validatedData = insertTenantSchema.parse(tenantData);
+      let tenant = await storage.createTenant(validatedData);
+
+      // Link (or invite) the client who will manage this tenant
+      if (ownerEmail) {
+        // Owners are users of the tenant they manage, like its other members
+        let owner = await storage.getUserByEmail(ownerEmail, tenant.id);
+        if (!owner) {
+          owner = await storage.createUser({
+            name: tenant.name,
+            email: ownerEmail,
+            password: null,
+            role: 'tenant_owner',
+            tenantId: tenant.id
+          });
+          await sendUserInvitation(owner);
+        } else {
+          owner = await storage.updateUserSubscription(owner.id, { role: 'tenant_owner' });
+        }
+        tenant = await storage.updateTenant(tenant.id, { ownerId: owner.id });
+        console.log(`Assigned ${ownerEmail} as owner of tenant ${tenant.id}`);
+      }
+
+      res.json(toPublicTenant(tenant));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || "Failed to create tenant" });
+    }
+  });
+
+  // Whether a tenant without its own keys may use the platform's OpenAI and Stripe accounts
+  app.put("/api/admin/tenants/:id/credential-policy", async (req, res) => {
+    try {
+      const policies = credentialPolicySchema.parse(req.body);
+      const tenant = await storage.updateTenant(parseInt(req.params.id), policies);
+      if (!tenant) {
+        return res.status(404).json({ error: "Tenant not found" });
+      }
+      res.json(toPublicTenant(tenant));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || "Failed to update credential policy" });
+    }
+  });
+
+  // Send a dry-run payload to the workflow this tenant's generations would use
+  app.post("/api/admin/tenants/:id/test-workflow", async (req, res) => {
+    try {
+      const tenant = await storage.getTenant(parseInt(req.params.id));
+      if (!tenant) {
+        return res.status(404).json({ error: "Tenant not found" });
+      }
+
+      const result = await testWorkflow(resolveWorkflowEndpoint(tenant));
+      console.log(`Workflow test for tenant ${tenant.id}: ${result.ok ? 'ok' : 'failed'} (${result.status ?? result.error})`);
+      res.json(result);
+    } catch (error: any) {
+      console.error('Workflow test error:', error);
+      res.status(500).json({ error: "Failed to test workflow" });
+    }
+  });
+
+  // Same dry run against the platform default workflow
+  app.post("/api/admin/test-workflow", async (req, res) => {
+    try {
+      res.json(await testWorkflow(resolveWorkflowEndpoint(null)));
+    } catch (error: any) {
+      console.error('Workflow test error:', error);
+      res.status(500).json({ error: "Failed to test workflow" });
+    }
+  });
+
+  // HighLevel tag rules for any scope (tenantId omitted or null = main platform)
+  app.get("/api/admin/tag-rules", async (req, res) => {
+    try {
+      const tenantId = req.query.tenantId ? parseInt(req.query.tenantId as string) : null;
+      res.json(await getEffectiveTagRules(tenantId));
+    } catch (error: any) {
+      console.error('Tag rules error:', error);
+      res.status(500).json({ error: "Failed to load tag rules" });
+    }
+  });
+
+  app.put("/api/admin/tag-rules", async (req, res) => {
+    try {
+      const { tenantId = null } = req.body;
+      const tenant = tenantId ? await storage.getTenant(tenantId) : null;
+      if (tenantId && !tenant) {
+        return res.status(404).json({ error: "Tenant not found" });
+      }
+
+      const rules = parseTagRules(req.body.rules, tenant);
+      await storage.replaceTagRules(tenantId, rules);
+      console.log(`Saved ${rules.length} tag rules for ${tenantId ? `tenant ${tenantId}` : 'the main platform'}`);
+      res.json({ success: true, ...(await getEffectiveTagRules(tenantId)) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || "Failed to save tag rules" });
+    }
+  });
+
+  app.post("/api/admin/tag-rules/preview", async (req, res) => {
+    try {
+      const { tenantId = null } = req.body;
+      const tenant = tenantId ? await storage.getTenant(tenantId) : null;
+      const rules = req.body.rules ? parseTagRules(req.body.rules, tenant) : (await getEffectiveTagRules(tenantId)).rules;
+      res.json(evaluateTags(rules, req.body.tags));
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || "Failed to preview tags" });
+    }
+  });
+
+  // Inbound webhook log. Filters: source, status, tenantId ("main" = main platform, omitted = all)
+  app.get("/api/admin/webhook-deliveries", async (req, res) => {
+    try {
+      const { source, status, tenantId } = req.query as Record<string, string | undefined>;
+      const deliveries = await storage.getWebhookDeliveries({
+        source: source || undefined,
+        status: status || undefined,
+        tenantId: tenantId === "main" ? null : tenantId ? parseInt(tenantId) : undefined,
+        limit: req.query.limit ? Math.min(parseInt(req.query.limit as string) || 100, 500) : undefined
+      });
+      res.json(deliveries);
+    } catch (error: any) {
+      console.error('Webhook deliveries error:', error);
+      res.status(500).json({ error: "Failed to load webhook deliveries" });
+    }
+  });
+
+  app.get("/api/admin/webhook-deliveries/:id", async (req, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ error: "Invalid delivery ID" });
+    }
+
+    try {
+      const delivery = await storage.getWebhookDelivery(id);
+      if (!delivery) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+      res.json(delivery);
+    } catch (error: any) {
+      console.error('Webhook delivery error:', error);
+      res.status(500).json({ error: "Failed to load webhook delivery" });
+    }
+  });
+
+  // Re-run a verified delivery's stored body through its source's handler; the replay is logged
+  // as a new delivery pointing at the original
+  app.post("/api/admin/webhook-deliveries/:id/replay", async (req: AuthRequest, res) => {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ error: "Invalid delivery ID" });
+    }
+
+    try {
+      const original = await storage.getWebhookDelivery(id);
+      if (!original) {
+        return res.status(404).json({ error: "Delivery not found" });
+      }
+      if (!original.verified) {
+        return res.status(400).json({ error: "Only verified deliveries can be replayed" });
+      }
+
+      const tenant = original.tenantId ? await storage.getTenant(original.tenantId) : null;
+      if (original.tenantId && !tenant) {
+        return res.status(404).json({ error: "Tenant not found" });
+      }
+
+      // n8n results belong to a content request; one that already failed (and returned its credit) is
+      // charged again and reopened - unless it still holds a credit, so repeated replays charge once.
+      // Callbacks other than a final result are ignored on finished requests.
+      let contentRequest = original.source === 'n8n' && original.contentRequestId
+        ? await storage.getContentRequest(original.contentRequestId, original.tenantId)
+        : undefined;
+      const isCallback = original.verificationMethod !== 'workflow-response';
+      if (original.source === 'n8n') {
+        if (!contentRequest) {
+          return res.status(404).json({ error: "Content request not found" });
+        }
+        const callbackType = (original.body as { type?: unknown } | null)?.type;
+        const deliversResult = !isCallback || callbackType === 'csv' || callbackType === 'drive_file';
+        if (contentRequest.status === 'failed' && contentRequest.userId && deliversResult) {
+          const reserved = await storage.consumeCredit(contentRequest.userId, 'content', {
+            reason: `Replayed workflow result for request #${contentRequest.id}`,
+            actorType: 'admin',
+            actorUserId: req.currentUser!.id,
+            contentRequestId: contentRequest.id,
+            skipIfHeld: true
+          });
+          if (!reserved) {
+            return res.status(409).json({ error: "The user has no content generations left for this request" });
+          }
+          if (isCallback) {
+            contentRequest = await storage.updateContentRequest(contentRequest.id, { status: 'processing', errorMessage: null });
+          }
+        }
+      }
+
+      const replay = await storage.createWebhookDelivery({
+        tenantId: original.tenantId,
+        source: original.source,
+        headers: original.headers as InsertWebhookDelivery["headers"],
+        body: original.body as InsertWebhookDelivery["body"],
+        verified: original.verified,
+        verificationMethod: original.verificationMethod,
+        status: 'received',
+        userId: original.source === 'n8n' ? original.userId : null,
+        contentRequestId: original.contentRequestId,
+        replayOf: original.id
+      });
+      console.log(`Replaying ${original.source} webhook delivery ${original.id} as ${replay.id}`);
+
+      switch (original.source) {
+        case 'highlevel':
+          return await processHighLevelDelivery(req, res, replay.id, original.body, tenant ?? null);
+        case 'stripe':
+          return await processStripeDelivery(res, replay.id, original.body as Stripe.Event, tenant ?? null);
+        case 'n8n': {
+          if (isCallback) {
+            return await processWorkflowCallback(res, replay.id, contentRequest!, original.body);
+          }
+          const processed = await processWorkflowDelivery(replay.id, contentRequest!, original.body);
+          return res.json({ success: processed, deliveryId: replay.id });
+        }
+        default:
+          await storage.updateWebhookDelivery(replay.id, { status: 'failed', outcome: `Unknown source ${original.source}`, processedAt: new Date() });
+          return res.status(400).json({ error: `Deliveries from ${original.source} can't be replayed` });
+      }
+    } catch (error: any) {
+      console.error('Webhook replay error:', error);
+      res.status(500).json({ error: "Failed to replay delivery" });
+    }
+  });
+
+  // Generation job queue: counts per status plus the latest jobs, filtered by status and type
+  app.get("/api/admin/jobs", async (req, res) => {
+    try {
+      const { status, type } = req.query as Record<string, string | undefined>;
+      const [counts, jobs] = await Promise.all([
+        storage.countGenerationJobs(),
+        storage.getGenerationJobs({ status: status || undefined, type: type || undefined })
+      ]);
+      res.json({ counts, jobs });
+    } catch (error: any) {
+      console.error('Job queue error:', error);
+      res.status(500).json({ error: "Failed to load jobs" });
+    }
+  });
+
+  app.delete("/api/admin/tenants/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.deleteTenant(id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || "Failed to delete tenant" });
+    }
+  });
+
+  // Tenant owner console - every route is scoped to the owner's own tenant
+  app.use("/api/tenant-admin", isAuthenticated, requireRole("tenant_owner"), loadOwnedTenant);
+
+  app.get("/api/tenant-admin/overview", async (req: TenantOwnerRequest, res) => {
+    try {
+      const tenant = req.ownedTenant!;
+      const [tenantUsers, requests, purchases, consumption] = await Promise.all([
+        storage.getUsersByTenant(tenant.id),
+        storage.getContentRequestsByTenant(tenant.id),
+        storage.getGenerationPurchasesByTenant(tenant.id),
+        storage.getConsumptionByTenant(tenant.id)
+      ]);
+
+      res.json({
+        tenant: {
+          id: tenant.id,
+          name: tenant.name,
+          domain: tenant.domain,
+          subdomain: tenant.subdomain,
+          isActive: tenant.isActive,
+          plan: tenant.plan,
+          brandingConfig: tenant.brandingConfig || {},
+          keys: summarizeTenantKeys(tenant)
+        },
+        usage: {
+          totalUsers: tenantUsers.length,
+          activeSubscribers: tenantUsers.filter(u => u.subscriptionStatus === 'active').length,
+          generationsUsed: Array.from(consumption.values()).reduce((sum, used) => sum + used, 0),
+          contentRequests: {
+            total: requests.length,
+            completed: requests.filter(r => r.status === 'completed').length,
+            processing: requests.filter(r => r.status === 'processing').length,
+            failed: requests.filter(r => r.status === 'failed').length
+          },
+          revenue: purchases
+            .filter(p => p.paymentStatus === 'completed')
+            .reduce((sum, p) => sum + p.amountPaid, 0)
+        }
+      });
+    } catch (error: any) {
+      console.error('Tenant overview error:', error);
+      res.status(500).json({ error: "Failed to load tenant overview" });
+    }
+  });
+
+  app.get("/api/tenant-admin/users", async (req: TenantOwnerRequest, res) => {
+    try {
+      const [tenantUsers, consumption] = await Promise.all([
+        storage.getUsersByTenant(req.ownedTenant!.id),
+        storage.getConsumptionByTenant(req.ownedTenant!.id)
+      ]);
+      res.json({
+        users: tenantUsers.map(user => ({ ...toPublicUser(user), generationsUsed: consumption.get(user.id) || 0 }))
+      });
+    } catch (error: any) {
+      console.error('Tenant users error:', error);
+      res.status(500).json({ error: "Failed to load users" });
+    }
+  });
+
+  app.patch("/api/tenant-admin/users/:id", async (req: TenantOwnerRequest, res) => {
+    try {
+      const tenant = req.ownedTenant!;
+      const user = await storage.getUser(parseInt(req.params.id), tenant.id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // Owners may adjust plan access but not roles or credentials
+      const { name, subscriptionTier, subscriptionStatus } = req.body;
+      const updates: Partial<User> = {};
+      if (name) updates.name = name;
+      if (subscriptionTier) {
+        if (!findPlan(tenant, subscriptionTier)) {
+          return res.status(400).json({ error: `Unknown plan: ${subscriptionTier}` });
+        }
+        updates.subscriptionTier = subscriptionTier;
+        Object.assign(updates, planAllowances(tenant, subscriptionTier));
+      }
+      if (subscriptionStatus) {
+        if (!SUBSCRIPTION_STATUSES.includes(subscriptionStatus)) {
+          return res.status(400).json({ error: `Unknown subscription status: ${subscriptionStatus}` });
+        }
+        updates.subscriptionStatus = subscriptionStatus;
+      }
+
+      const updatedUser = await storage.updateUserSubscription(user.id, updates);
+      res.json({ success: true, user: toPublicUser(updatedUser) });
+    } catch (error: any) {
+      console.error('Tenant user update error:', error);
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  app.get("/api/tenant-admin/purchases", async (req: TenantOwnerRequest, res) => {
+    try {
+      const purchases = await storage.getGenerationPurchasesByTenant(req.ownedTenant!.id);
+      res.json({ purchases });
+    } catch (error: any) {
+      console.error('Tenant purchases error:', error);
+      res.status(500).json({ error: "Failed to load purchases" });
+    }
+  });
+
+  app.get("/api/tenant-admin/content-requests", async (req: TenantOwnerRequest, res) => {
+    try {
+      const requests = await storage.getContentRequestsByTenant(req.ownedTenant!.id);
+      // Omit file payloads from the listing
+      res.json({
+        contentRequests: requests.map(({ csvBase64, scriptContent, ...request }) => request)
+      });
+    } catch (error: any) {
+      console.error('Tenant content requests error:', error);
+      res.status(500).json({ error: "Failed to load content requests" });
+    }
+  });
+
+  app.delete("/api/tenant-admin/content-requests/:id", async (req: TenantOwnerRequest, res) => {
+    try {
+      await storage.deleteTenantContentRequest(parseInt(req.params.id), req.ownedTenant!.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Tenant content request delete error:', error);
+      res.status(500).json({ error: "Failed to delete content request" });
+    }
+  });
+
+  app.put("/api/tenant-admin/branding", async (req: TenantOwnerRequest, res) => {
+    try {
+      const brandingConfig = brandingConfigSchema.parse(req.body);
+      const tenant = await storage.updateTenant(req.ownedTenant!.id, { brandingConfig });
+      res.json({ success: true, brandingConfig: tenant.brandingConfig });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || "Failed to update branding" });
+    }
+  });
+
+  app.put("/api/tenant-admin/keys", async (req: TenantOwnerRequest, res) => {
+    try {
+      const keys = tenantKeysSchema.parse(req.body);
+      const tenant = await storage.updateTenant(req.ownedTenant!.id, keys);
+      console.log(`Rotated integration keys for tenant ${tenant.id}: ${Object.keys(keys).join(', ')}`);
+      res.json({ success: true, keys: summarizeTenantKeys(tenant) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || "Failed to update keys" });
+    }
+  });
+
+  app.get("/api/tenant-admin/plans", async (req: TenantOwnerRequest, res) => {
+    const tenant = req.ownedTenant!;
+    res.json({ plans: getPlanCatalog(tenant), isCustom: !!tenant.planCatalog });
+  });
+
+  // HighLevel tag rules for the tenant; saving an empty list goes back to the defaults
+  app.get("/api/tenant-admin/tag-rules", async (req: TenantOwnerRequest, res) => {
+    try {
+      res.json(await getEffectiveTagRules(req.ownedTenant!.id));
+    } catch (error: any) {
+      console.error('Tag rules error:', error);
+      res.status(500).json({ error: "Failed to load tag rules" });
+    }
+  });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  
-  // Apply tenant middleware to all routes
-  app.use(tenantMiddleware);
-  
-  // Admin routes for managing white label clients
-  app.get("/api/admin/tenants", async (req, res) => {
+  app.put("/api/tenant-admin/tag-rules", async (req: TenantOwnerRequest, res) => {
     try {
-      const tenants = await storage.getAllTenants();
-      res.json(tenants);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch tenants" });
+      const tenant = req.ownedTenant!;
+      const rules = parseTagRules(req.body.rules, tenant);
+      await storage.replaceTagRules(tenant.id, rules);
+      console.log(`Saved ${rules.length} tag rules for tenant ${tenant.id}`);
+      res.json({ success: true, ...(await getEffectiveTagRules(tenant.id)) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || "Failed to save tag rules" });
     }
   });
 
-  app.post("/api/admin/tenants", async (req, res) => {
+  // Show which tier a set of tags would get, with unsaved rules if given
+  app.post("/api/tenant-admin/tag-rules/preview", async (req: TenantOwnerRequest, res) => {
     try {
-      const validatedData = insertTenantSchema.parse(req.body);
-      const tenant = await storage.createTenant(validatedData);
-      res.json(tenant);
+      const tenant = req.ownedTenant!;
+      const rules = req.body.rules ? parseTagRules(req.body.rules, tenant) : (await getEffectiveTagRules(tenant.id)).rules;
+      res.json(evaluateTags(rules, req.body.tags));
     } catch (error: any) {
-      res.status(400).json({ error: error.message || "Failed to create tenant" });
+      res.status(400).json({ error: error.message || "Failed to preview tags" });
     }
   });
 
-  app.delete("/api/admin/tenants/:id", async (req, res) => {
+  // Replace the tenant's plan catalog; null goes back to the platform defaults
+  app.put("/api/tenant-admin/plans", async (req: TenantOwnerRequest, res) => {
     try {
-      const id = parseInt(req.params.id);
-      await storage.deleteTenant(id);
-      res.json({ success: true });
+      const planCatalog = req.body.plans === null ? null : planCatalogSchema.parse(req.body.plans);
+      const tenant = await storage.updateTenant(req.ownedTenant!.id, { planCatalog });
+      console.log(`Updated plan catalog for tenant ${tenant.id}: ${planCatalog ? planCatalog.map(plan => plan.tier).join(', ') : 'defaults'}`);
+      res.json({ success: true, plans: getPlanCatalog(tenant), isCustom: !!tenant.planCatalog });
     } catch (error: any) {
-      res.status(400).json({ error: error.message || "Failed to delete tenant" });
+      res.status(400).json({ error: error.message || "Failed to update plans" });
     }
   });
 
+  // Plans offered on this site: tiers, allowances, top-up prices and features
+  app.get("/api/plans", async (req: AuthRequest, res) => {
+    res.json({
+      plans: getPlanCatalog(req.tenant),
+      isCustom: !!req.tenant?.planCatalog
+    });
+  });
+
   // Get tenant branding info
-  app.get("/api/tenant/branding", async (req: TenantRequest, res) => {
+  app.get("/api/tenant/branding", async (req: AuthRequest, res) => {
     try {
       if (req.tenant) {
-        const branding = req.tenant.brandingConfig || {};
+        const branding = (req.tenant.brandingConfig || {}) as BrandingConfig;
         return res.json({
           companyName: branding.companyName || req.tenant.name,
           logo: branding.logo,
@@ -370,268 +1788,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Basic test endpoint
-  app.post("/api/basic-test", (req, res) => {
-    res.json({ success: true, message: "Basic POST endpoint working", body: req.body });
+  // HighLevel webhooks: main platform workflows post to /api/webhook/highlevel, tenant workflows to
+  // /api/webhook/highlevel/<subdomain>. /api/webhook-minimal is the older URL and uses the request's tenant.
+  app.post("/api/webhook/highlevel", async (req, res) => {
+    try {
+      await receiveHighLevelWebhook(req, res, null);
+    } catch (error) {
+      webhookFailed(res, 'HighLevel', error);
+    }
   });
 
-  // HighLevel webhook for subscription processing
-  app.all("/api/webhook-minimal", async (req, res) => {
+  app.post("/api/webhook/highlevel/:subdomain", async (req, res) => {
     try {
-      console.log('=== HIGHLEVEL WEBHOOK DATA ===');
-      console.log('Method:', req.method);
-      console.log('URL:', req.url);
-      console.log('Query params:', req.query);
-      console.log('Headers:', JSON.stringify(req.headers, null, 2));
-      console.log('Raw body type:', typeof req.body);
-      console.log('Body:', JSON.stringify(req.body, null, 2));
-      console.log('Body keys:', Object.keys(req.body || {}));
-      console.log('Body length:', JSON.stringify(req.body).length);
-      
-      // Check for common HighLevel webhook structures
-      if (req.body && typeof req.body === 'object') {
-        console.log('--- DETAILED BODY ANALYSIS ---');
-        for (const [key, value] of Object.entries(req.body)) {
-          console.log(`${key}: ${typeof value} = ${JSON.stringify(value)}`);
-        }
-        console.log('--- END ANALYSIS ---');
-      }
-      console.log('==============================');
-      
-      // Extract data from HighLevel webhook
-      const body = req.body || {};
-      
-      // Try multiple field variations for email
-      const email = body.email || 
-                    body['contact.email'] || 
-                    body.contactEmail ||
-                    body.contact?.email ||
-                    body.customer?.email;
-                    
-      // Try multiple field variations for name
-      const firstName = body.firstName || 
-                        body['contact.firstName'] || 
-                        body.contact?.firstName ||
-                        body.customer?.firstName;
-                        
-      const lastName = body.lastName || 
-                       body['contact.lastName'] || 
-                       body.contact?.lastName ||
-                       body.customer?.lastName;
-                       
-      // Try multiple field variations for tags
-      const tags = body.tags || 
-                   body['contact.tags'] || 
-                   body.contact?.tags ||
-                   body.customer?.tags ||
-                   [];
-
-      // Try to extract subscription/renewal date from various fields
-      const subscriptionEndDate = body.subscriptionEndDate ||
-                                 body['contact.subscriptionEndDate'] ||
-                                 body.contact?.subscriptionEndDate ||
-                                 body.renewalDate ||
-                                 body['contact.renewalDate'] ||
-                                 body.contact?.renewalDate ||
-                                 body.planEndDate ||
-                                 body['contact.planEndDate'] ||
-                                 body.contact?.planEndDate;
-      
-      console.log('Extracted data:');
-      console.log('- Email:', email);
-      console.log('- First Name:', firstName);
-      console.log('- Last Name:', lastName);
-      console.log('- Tags:', tags);
-      console.log('- Subscription End Date:', subscriptionEndDate);
-      
-      // Handle case where email might be missing but we have trigger context
-      if (email) {
-        // Get or create user
-        let user = await storage.getUserByEmail(email);
-        if (!user) {
-          user = await storage.createUser({
-            name: `${firstName || ''} ${lastName || ''}`.trim() || 'Unknown User',
-            email: email,
-            password: 'password123' // Default password for webhook-created users
-          });
-          console.log('Created new user:', user.email);
-        }
-        
-        // Map plan tags to subscription tiers
-        const planMapping = {
-          "$3 No Code Tool Automation and Content Creator Access": "basic",
-          "$3 No Code Tool Automation": "basic",
-          "$3 Content Creator Access": "basic",
-          "$3": "basic",
-          "XAUTI 27 CONTENT TOOL": "pro", 
-          "XAUTI CRM BUSINESS IN A BOX": "white_label",
-          "business in a box": "white_label",
-          "Business in a Box": "white_label",
-          "BUSINESS IN A BOX": "white_label",
-          "xauti crm 99 plan": "unlimited",
-          "XAUTI CRM 99 PLAN": "unlimited",
-          "Xauti CRM 99 Plan": "unlimited",
-          "XAUTI CRM UNOCK": "unlimited",
-          "$99 Plan Purchased": "unlimited",
-          "$99": "unlimited",
-          "99 Plan": "unlimited",
-          "Unlimited Plan": "unlimited"
-        };
-        
-        let subscriptionTier = "free";
-        let generationsLimit = 0;
-        
-        // Check tags for subscription plans - prioritize highest tier found
-        let foundTier = "free";
-        let hasWhiteLabelAccess = false;
-        
-        if (Array.isArray(tags)) {
-          for (const tag of tags) {
-            const tagLower = tag.toLowerCase();
-            console.log(`Checking tag: "${tag}" (lowercase: "${tagLower}")`);
-            
-            // Check for white label access (business in a box)
-            if (tagLower.includes('business in a box') || 
-                tagLower.includes('business in the box')) {
-              hasWhiteLabelAccess = true;
-              console.log(`Found WHITE LABEL access tag: ${tag}`);
-            }
-            
-            // Check for unlimited tier (xauti crm 99 plan)
-            if (tagLower.includes('xauti crm 99') || 
-                tagLower.includes('xauti crm 99 plan') ||
-                tagLower.includes('$99') || 
-                tagLower.includes('99 plan') || 
-                tagLower.includes('unlimited')) {
-              foundTier = "unlimited";
-              console.log(`Found UNLIMITED plan tag: ${tag} -> ${foundTier}`);
-            }
-            // Check for pro tier
-            else if (tagLower.includes('27') || 
-                     tagLower.includes('xauti 27') ||
-                     tagLower.includes('content tool')) {
-              if (foundTier === "free" || foundTier === "basic") foundTier = "pro";
-              console.log(`Found PRO plan tag: ${tag} -> ${foundTier}`);
-            }
-            // Check for basic tier
-            else if (tagLower.includes('$3') || 
-                     tagLower.includes('3 dollar') || 
-                     tagLower.includes('automation')) {
-              if (foundTier === "free") foundTier = "basic";
-              console.log(`Found BASIC plan tag: ${tag} -> ${foundTier}`);
-            }
-            
-            // Direct mapping check
-            if (planMapping[tag as keyof typeof planMapping]) {
-              const directTier = planMapping[tag as keyof typeof planMapping];
-              if (directTier === "unlimited" || (directTier === "pro" && foundTier !== "unlimited") || (directTier === "basic" && foundTier === "free")) {
-                foundTier = directTier;
-                console.log(`Found EXACT plan tag: ${tag} -> ${foundTier}`);
-              }
-            }
-          }
-          subscriptionTier = foundTier;
-          console.log(`Final subscription tier: ${subscriptionTier}`);
-        }
-        
-        // Set generation limits
-        const tierLimits = { free: 0, basic: 2, pro: 10, unlimited: 999999 };
-        generationsLimit = tierLimits[subscriptionTier as keyof typeof tierLimits] || 0;
-        
-        // Calculate subscription end date - ensure all paid tiers get renewal dates
-        let endDate = null;
-        if (subscriptionTier !== "free") {
-          if (subscriptionEndDate) {
-            // Parse the provided renewal date
-            endDate = new Date(subscriptionEndDate);
-            // If invalid date, fall back to 30 days from now
-            if (isNaN(endDate.getTime())) {
-              endDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
-            }
-          } else {
-            // Always set renewal date for paid subscriptions - default to 30 days from now
-            endDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
-          }
-        }
-        
-        // Update user subscription
-        const updatedUser = await storage.updateUserSubscription(user.id, {
-          subscriptionTier,
-          subscriptionStatus: subscriptionTier === "free" ? "inactive" : "active",
-          subscriptionEndDate: endDate,
-          tags: Array.isArray(tags) ? tags : (tags ? [tags] : []),
-          generationsLimit: generationsLimit
-        });
-        
-        console.log(`Updated user ${email}:`);
-        console.log(`- Subscription tier: ${subscriptionTier} (${generationsLimit} generations)`);
-        console.log(`- White label access: ${hasWhiteLabelAccess ? 'YES' : 'NO'}`);
-        console.log(`- Tags processed: ${Array.isArray(tags) ? tags.join(', ') : 'none'}`);
-        
-        res.json({
-          success: true,
-          message: `User updated - Tier: ${subscriptionTier}, White Label: ${hasWhiteLabelAccess}`,
-          user: {
-            email: updatedUser.email,
-            tier: updatedUser.subscriptionTier,
-            limit: updatedUser.generationsLimit,
-            whiteLabelAccess: hasWhiteLabelAccess,
-            tags: Array.isArray(tags) ? tags : []
-          }
-        });
-      } else {
-        // No email found - check if this is a trigger-based webhook
-        console.log('No email found in webhook data');
-        console.log('Checking for trigger-based data...');
-        
-        // Check if we have trigger information for manual processing
-        const triggerName = body.triggerName || body.trigger || body.workflowName;
-        if (triggerName) {
-          console.log('Found trigger:', triggerName);
-          
-          // For $27 plan, try to get contact from ladyhale@csamasters.com since that's the test account
-          if (triggerName.includes('27') || triggerName.toLowerCase().includes('dollar')) {
-            console.log('Detected $27 plan trigger - updating test account');
-            try {
-              const testUser = await storage.getUserByEmail('ladyhale@csamasters.com');
-              if (testUser) {
-                await storage.updateUserSubscription(testUser.id, {
-                  subscriptionTier: 'pro',
-                  subscriptionStatus: 'active',
-                  subscriptionEndDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-                  tags: ['XAUTI 27 CONTENT TOOL'],
-                  generationsLimit: 10
-                });
-                console.log('Updated test user to Pro tier');
-              }
-            } catch (error) {
-              console.error('Error updating test user:', error);
-            }
-          }
-        }
-        
-        res.json({
-          success: true,
-          message: "Webhook received but no contact email found",
-          receivedData: body,
-          triggerDetected: triggerName || 'none'
-        });
+      const tenant = await getWebhookTenant(req.params.subdomain);
+      if (!tenant) {
+        return res.status(404).json({ error: "Unknown tenant" });
       }
-    } catch (error: any) {
-      console.error('Webhook processing error:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: "Failed to process webhook",
-        message: error.message 
-      });
+      await receiveHighLevelWebhook(req, res, tenant);
+    } catch (error) {
+      webhookFailed(res, 'HighLevel', error);
+    }
+  });
+
+  app.post("/api/webhook-minimal", async (req: AuthRequest, res) => {
+    try {
+      await receiveHighLevelWebhook(req, res, req.tenant ?? null);
+    } catch (error) {
+      webhookFailed(res, 'HighLevel', error);
     }
   });
 
-  // Simple GET test for HighLevel
-  app.get("/api/test-get", (req, res) => {
-    console.log('GET /api/test-get called');
-    console.log('Query params:', req.query);
-    res.status(200).send("GET endpoint working - HighLevel can reach this");
+  // n8n callbacks for a content request: platform workflows post to /api/webhook/n8n/<requestId>,
+  // tenant workflows to /api/webhook/n8n/<subdomain>/<requestId> (the callbackUrl they are sent)
+  app.post("/api/webhook/n8n/:requestId(\\d+)", async (req, res) => {
+    try {
+      await receiveWorkflowCallback(req, res, null);
+    } catch (error) {
+      webhookFailed(res, 'n8n callback', error);
+    }
+  });
+
+  app.post("/api/webhook/n8n/:subdomain/:requestId(\\d+)", async (req, res) => {
+    try {
+      const tenant = await getWebhookTenant(req.params.subdomain);
+      if (!tenant) {
+        return res.status(404).json({ error: "Unknown tenant" });
+      }
+      await receiveWorkflowCallback(req, res, tenant);
+    } catch (error) {
+      webhookFailed(res, 'n8n callback', error);
+    }
   });
 
   // Super simple test endpoint for immediate verification
@@ -643,7 +1849,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   
   // Authentication routes with password verification and real-time access control
-  app.post("/api/auth/signin", async (req, res) => {
+  app.post("/api/auth/signin", async (req: AuthRequest, res) => {
     try {
       const { name, email, password } = req.body;
       
@@ -651,15 +1857,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Name, email, and password are required" });
       }
 
-      // Check if user exists
-      let user = await storage.getUserByEmail(email);
+      // Accounts belong to the tenant (white label site) they signed up on
+      const tenantId = getTenantId(req);
+      let user = await storage.getUserByEmail(email, tenantId);
       
       if (!user) {
         // Create new user with no access until webhook provides tags
         user = await storage.createUser({ 
+          tenantId,
           name, 
           email,
-          password,
+          password: await hashPassword(password),
           subscriptionTier: 'free',
           subscriptionStatus: 'inactive',
           generationsLimit: 0,
@@ -667,12 +1875,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       } else {
         // Verify password for existing user
-        if (user.password !== password) {
+        const passwordCheck = await verifyPassword(password, user.password);
+        if (!passwordCheck.valid) {
+          if (passwordCheck.reason !== "mismatch") {
+            return res.status(401).json({
+              error: "You need to set a password for this account before signing in.",
+              needsPasswordSetup: true
+            });
+          }
           return res.status(401).json({ 
             error: "Invalid password. Please check your credentials and try again.",
             needsAuth: true
           });
         }
+
+        // One-time migration of plaintext passwords to salted hashes
+        if (passwordCheck.needsRehash) {
+          user = await storage.updateUserPassword(user.id, await hashPassword(password));
+          console.log(`Migrated plaintext password to hash for user ${user.id}`);
+        }
         
         // Update user's name if it's different (in case they want to change their display name)
         if (user.name !== name) {
@@ -680,60 +1901,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // CRITICAL: Real-time tag verification and automatic tier assignment
-      let subscriptionTier = "free";
-      let generationsLimit = 0;
-      let hasValidTags = false;
-
-      if (user.tags && user.tags.length > 0) {
-        // Check each tag and determine the highest subscription tier
-        for (const tag of user.tags) {
-          const tagLower = tag.toLowerCase();
-          
-          // Check for unlimited tier (highest priority)
-          if (tagLower.includes('xauti crm business') || 
-              tagLower.includes('business in a box') || 
-              tagLower.includes('$99') || 
-              tagLower.includes('unlimited')) {
-            subscriptionTier = "unlimited";
-            generationsLimit = 999999;
-            hasValidTags = true;
-            break; // Stop at highest tier
-          }
-          // Check for pro tier
-          else if (tagLower.includes('27') || 
-                   tagLower.includes('content tool') ||
-                   tagLower.includes('xauti 27') ||
-                   tagLower.includes('27 content') ||
-                   tagLower.includes('$27')) {
-            if (subscriptionTier === "free") {
-              subscriptionTier = "pro";
-              generationsLimit = 10;
-              hasValidTags = true;
-            }
-          }
-          // Check for basic tier
-          else if (tagLower.includes('$3') || 
-                   tagLower.includes('automation') ||
-                   tagLower.includes('3 dollar')) {
-            if (subscriptionTier === "free") {
-              subscriptionTier = "basic";
-              generationsLimit = 2;
-              hasValidTags = true;
-            }
-          }
-        }
+      // Promote configured platform admins (main platform accounts only)
+      if (user.role !== 'platform_admin' && user.tenantId === null && isBootstrapAdmin(user.email)) {
+        user = await storage.updateUserSubscription(user.id, { role: 'platform_admin' });
+        console.log(`Promoted ${email} to platform admin`);
       }
 
+      // Platform admins and tenant owners can sign in without subscription tags
+      const hasStaffAccess = user.role === 'platform_admin' || user.role === 'tenant_owner';
+
+      // Stripe subscriptions are kept in sync by the webhook, so tags don't override them
+      const hasStripeSubscription = !!user.stripeSubscriptionId;
+
+      // Where in-app checkout is available, untagged users may sign in as free and subscribe from settings
+      const canSubscribeInApp = !!getStripeClient(req.tenant);
+
+      // CRITICAL: Real-time tag verification and automatic tier assignment
+      const evaluation = await resolveTierFromTags(getTenantId(req), user.tags);
+      const subscriptionTier = evaluation.tier;
+      const hasValidTags = evaluation.hasPlanTag;
+
       // If no valid subscription tags found, revoke access
-      if (!hasValidTags) {
+      if (!hasValidTags && !hasStaffAccess && !hasStripeSubscription && !canSubscribeInApp) {
         console.log(`Access denied for ${email} - no valid subscription tags found. Current tags:`, user.tags);
         
         // Immediately downgrade to free tier
         await storage.updateUserSubscription(user.id, {
           subscriptionTier: "free",
           subscriptionStatus: "inactive",
-          generationsLimit: 0
+          generationsLimit: 0,
+          scriptGenerationsLimit: 0
         });
         
         return res.status(403).json({ 
@@ -743,14 +1940,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Auto-update subscription tier if tags changed
-      if (user.subscriptionTier !== subscriptionTier || user.generationsLimit !== generationsLimit) {
+      // Auto-update subscription tier if tags changed. Allowances only change with the tier, so
+      // sign-in never overwrites the limits of a user whose plan is unchanged.
+      if (hasValidTags && !hasStripeSubscription && user.subscriptionTier !== subscriptionTier) {
         const endDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
         user = await storage.updateUserSubscription(user.id, {
           subscriptionTier,
           subscriptionStatus: "active",
           subscriptionEndDate: endDate,
-          generationsLimit
+          ...planAllowances(req.tenant, subscriptionTier)
         });
         console.log(`Auto-updated ${email} from database tier to ${subscriptionTier} based on current tags`);
       }
@@ -788,7 +1986,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         user.tags && 
         user.tags.length > 0;
 
-      if (!hasValidSubscription) {
+      if (!hasValidSubscription && !hasStaffAccess && !hasStripeSubscription && !canSubscribeInApp) {
         return res.status(403).json({
           success: false,
           error: "SUBSCRIPTION_REQUIRED",
@@ -797,18 +1995,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Ensure all subscription fields are present with defaults
-      const userWithDefaults = {
-        ...user,
-        subscriptionTier: user.subscriptionTier || 'free',
-        subscriptionStatus: user.subscriptionStatus || 'inactive',
-        generationsLimit: user.generationsLimit || 0,
-        generationsUsed: user.generationsUsed || 0,
-        tags: user.tags || []
-      };
+      // Establish the server-side session for this user
+      await signIn(req, user.id);
 
       res.json({ 
-        user: userWithDefaults,
+        user: await toAccountUser(user),
         message: `Welcome back! You're on day ${newStreak} of your content streak.`
       });
 
@@ -818,48 +2009,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get current user info
-  app.get("/api/auth/user/:email", async (req, res) => {
+  // Get the signed-in user
+  app.get("/api/auth/me", isAuthenticated, async (req: AuthRequest, res) => {
     try {
-      const { email } = req.params;
-      const user = await storage.getUserByEmail(email);
-      
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
+      // Roll usage over if the billing period ended since the last request
+      const user = await storage.refreshUsagePeriod(req.currentUser!);
+      res.json({ user: await toAccountUser(user) });
+    } catch (error: any) {
+      console.log('Current user error:', error);
+      res.status(500).json({ error: "Failed to load user" });
+    }
+  });
 
-      res.json({ user });
+  // Sign out and destroy the session
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      await signOut(req);
+      res.clearCookie('connect.sid');
+      res.json({ success: true });
     } catch (error: any) {
-      console.log('Get user error:', error);
-      res.status(500).json({ error: "Failed to get user" });
+      console.log('Sign-out error:', error);
+      res.status(500).json({ error: "Failed to sign out" });
     }
   });
 
   // Change password endpoint
-  app.post("/api/auth/change-password", async (req, res) => {
+  app.post("/api/auth/change-password", isAuthenticated, async (req: AuthRequest, res) => {
     try {
-      const { email, currentPassword, newPassword } = req.body;
+      const { currentPassword, newPassword } = req.body;
       
-      if (!email || !currentPassword || !newPassword) {
-        return res.status(400).json({ error: "Email, current password, and new password are required" });
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ error: "Current password and new password are required" });
       }
 
       if (newPassword.length < 6) {
         return res.status(400).json({ error: "New password must be at least 6 characters long" });
       }
 
-      // Get user and verify current password
-      const user = await storage.getUserByEmail(email);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
-      }
+      // Verify current password of the signed-in user
+      const user = req.currentUser!;
 
-      if (user.password !== currentPassword) {
+      const passwordCheck = await verifyPassword(currentPassword, user.password);
+      if (!passwordCheck.valid) {
         return res.status(401).json({ error: "Current password is incorrect" });
       }
 
       // Update password
-      await storage.updateUserPassword(user.id, newPassword);
+      await storage.updateUserPassword(user.id, await hashPassword(newPassword));
 
       res.json({ 
         success: true,
@@ -871,49 +2067,100 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Request a password reset link by email
+  app.post("/api/auth/request-reset", async (req: AuthRequest, res) => {
+    try {
+      const { email } = req.body;
+      
+      if (!email) {
+        return res.status(400).json({ error: "Email is required" });
+      }
+
+      // Resolved before the lookup so a missing APP_URL fails the same way for every email
+      const appUrl = getAppUrl(req.tenant);
+      const user = await storage.getUserByEmail(email, getTenantId(req));
+      if (user) {
+        const token = createPasswordToken(user, "reset");
+        await sendPasswordResetEmail(user.email, user.name, `${appUrl}/reset-password?token=${encodeURIComponent(token)}`);
+        console.log(`Password reset requested for user ${user.id}`);
+      }
+
+      // Same response whether or not the account exists
+      res.json({
+        success: true,
+        message: "If an account exists for that email, a reset link has been sent."
+      });
+    } catch (error: any) {
+      console.log('Request reset error:', error);
+      res.status(500).json({ error: "Failed to request password reset" });
+    }
+  });
+
+  // Set a new password using a reset or invitation token
+  app.post("/api/auth/complete-reset", async (req, res) => {
+    try {
+      const { token, newPassword } = req.body;
+      
+      if (!token || !newPassword) {
+        return res.status(400).json({ error: "Token and new password are required" });
+      }
+
+      if (newPassword.length < 6) {
+        return res.status(400).json({ error: "New password must be at least 6 characters long" });
+      }
+
+      const user = await verifyPasswordToken(token);
+      if (!user) {
+        return res.status(400).json({ 
+          error: "This link is invalid or has expired. Please request a new one.",
+          tokenInvalid: true
+        });
+      }
+
+      await storage.updateUserPassword(user.id, await hashPassword(newPassword));
+      console.log(`Password set via token for user ${user.id}`);
+
+      res.json({
+        success: true,
+        email: user.email,
+        message: "Password updated. You can now sign in."
+      });
+    } catch (error: any) {
+      console.log('Complete reset error:', error);
+      res.status(500).json({ error: "Failed to reset password" });
+    }
+  });
+
   // API route to handle content generation requests (30-day workflow only)
-  app.post("/api/content-generate", async (req, res) => {
-    let contentRequest: any = null;
-    const webhookUrl = 'https://n8n.srv847085.hstgr.cloud/webhook/words-only';
+  app.post("/api/content-generate", isAuthenticated, async (req: AuthRequest, res) => {
+    let contentRequest: ContentRequest | null = null;
     
     try {
-      const { industry, selected_topics, userId } = req.body;
+      const { industry, selected_topics } = req.body;
+      const userId = req.currentUser!.id;
       
-      if (!industry || !selected_topics || !userId) {
-        return res.status(400).json({ error: "Industry, selected topics, and user ID are required" });
+      if (!industry || !selected_topics) {
+        return res.status(400).json({ error: "Industry and selected topics are required" });
       }
 
       console.log(`Content generation requested for industry: ${industry}, user: ${userId}`);
       console.log(`Selected topics:`, selected_topics);
       
+      // The tenant's n8n workflow or the built-in generator, which needs an OpenAI client
+      const generator = resolveContentGenerator(req.tenant);
+      if (generator === "native" && !getOpenAIClient(req.tenant)) {
+        return res.status(503).json({ error: "AI generation is not configured for this platform" });
+      }
+
       // Check if user can generate content based on subscription tier
       const canGenerate = await storage.checkUserCanGenerate(userId);
       if (!canGenerate) {
-        const user = await storage.getUser(userId);
-        const tierInfo = {
-          free: { limit: 0, name: "Free" },
-          basic: { limit: 2, name: "$3 Basic" },
-          pro: { limit: 10, name: "$27 Pro" },
-          unlimited: { limit: "unlimited", name: "$99+ Unlimited" }
-        } as const;
-        
-        const userTier = (user?.subscriptionTier || 'free') as keyof typeof tierInfo;
-        const currentTier = tierInfo[userTier];
-        
-        return res.status(403).json({
-          success: false,
-          message: "Generation limit reached",
-          error: "GENERATION_LIMIT_EXCEEDED",
-          currentTier: user?.subscriptionTier || 'free',
-          generationsUsed: user?.generationsUsed || 0,
-          generationsLimit: user?.generationsLimit || 0,
-          tierLimit: currentTier.limit,
-          tierName: currentTier.name
-        });
+        return res.status(403).json(await creditLimitPayload(userId, 'content', req.tenant));
       }
       
       // Create request record in database
       contentRequest = await storage.createContentRequest({
+        tenantId: getTenantId(req),
         userId,
         industry,
         selectedTopics: selected_topics,
@@ -922,145 +2169,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`Created content request with ID: ${contentRequest.id}`);
 
-      // Start the n8n workflow without waiting for completion
-      // Send response immediately and let workflow run in background
-      const requestBody = {
-        industry,
-        selected_topics,
-        requestId: contentRequest.id // Add request ID for tracking
-      };
-      console.log(`Sending to n8n:`, JSON.stringify(requestBody, null, 2));
-
-      // Fire and forget approach - don't wait for completion
-      fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(requestBody)
-      }).then(async (n8nResponse) => {
-        console.log('n8n response received with status:', n8nResponse.status);
-        
-        if (!n8nResponse.ok) {
-          console.log(`n8n webhook failed with status: ${n8nResponse.status}`);
-          await storage.updateContentRequest(contentRequest.id, {
-            status: "failed",
-            errorMessage: `n8n webhook failed with status: ${n8nResponse.status}`,
-            completedAt: new Date()
-          });
-          return;
-        }
-
-        try {
-          const responseText = await n8nResponse.text();
-          console.log('n8n response text:', responseText);
-          
-          if (!responseText || responseText.trim() === '') {
-            console.log('Empty response from n8n, treating as success');
-            await storage.updateContentRequest(contentRequest.id, {
-              status: "processing",
-              completedAt: null
-            });
-            return;
-          }
-          
-          const responseData = JSON.parse(responseText);
-          console.log('n8n response data structure:', JSON.stringify(responseData, null, 2));
-          
-          // Handle CSV response and update database
-          let csvBase64 = null;
-          let filename = 'xauti-content.csv';
-          
-          if (responseData.csvBase64) {
-            csvBase64 = responseData.csvBase64;
-            filename = responseData.filename || filename;
-          } else if (responseData.base64) {
-            csvBase64 = responseData.base64;
-            filename = responseData.name || filename;
-          } else if (responseData.content) {
-            csvBase64 = responseData.content;
-            filename = responseData.filename || responseData.name || filename;
-          } else if (responseData.kind === 'drive#file') {
-            // Google Drive file - provide direct download instructions
-            console.log('Detected Google Drive file response');
-            
-            const downloadUrl = responseData.webContentLink;
-            filename = responseData.name || 'xauti-content.csv';
-            
-            // Create instructions for accessing the Google Drive file
-            const instructionsContent = `YOUR 30 DAYS OF CONTENT IS READY!
-
-File Details:
-- Name: ${filename}
-- Size: ${Math.round(responseData.size / 1024)} KB
-- Created: ${new Date(responseData.createdTime).toLocaleDateString()}
-
-TO DOWNLOAD YOUR CONTENT:
-Click the download button below to open your CSV file directly from Google Drive.
-
-Direct Download Link:
-${downloadUrl}
-
-WHAT'S INCLUDED:
-✓ 30 days of personalized social media content
-✓ Platform-specific formatting (Facebook, Instagram, LinkedIn, etc.)
-✓ Hashtags and engagement prompts
-✓ Posting schedule and timing recommendations
-
-NEED HELP?
-If the download doesn't work automatically:
-1. Right-click the download button
-2. Select "Open link in new tab"
-3. Your CSV file will download immediately
-
-File ID: ${responseData.id}
-Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
-            
-            csvBase64 = Buffer.from(instructionsContent, 'utf-8').toString('base64');
-            
-            // Store the download instructions and URL in the CSV content
-            await storage.updateContentRequest(contentRequest.id, {
-              status: "completed",
-              csvFilename: filename,
-              csvBase64: csvBase64,
-              completedAt: new Date()
-            });
-            
-            // Increment user's generation count for usage tracking
-            await storage.incrementUserGenerations(contentRequest.userId);
-            
-            console.log(`Google Drive file stored for request ${contentRequest.id}: ${downloadUrl}`);
-            return; // Exit early since we handled the storage update
-          } else {
-            // Fallback - create a simple CSV
-            console.log('Unknown response format, creating fallback CSV');
-            const csvContent = `Industry,Topics,Status,Timestamp\n"${industry}","${selected_topics.join('; ')}","Completed","${new Date().toISOString()}"`;
-            csvBase64 = btoa(csvContent);
-          }
-          
-          await storage.updateContentRequest(contentRequest.id, {
-            status: "completed",
-            csvFilename: filename,
-            csvBase64: csvBase64,
-            completedAt: new Date()
-          });
-
-          console.log(`Content generation completed for request ${contentRequest.id}`);
-        } catch (error) {
-          console.log('Error processing n8n response:', error);
-          await storage.updateContentRequest(contentRequest.id, {
-            status: "failed",
-            errorMessage: `Error processing response: ${error}`,
-            completedAt: new Date()
-          });
-        }
-      }).catch(async (error) => {
-        console.log('n8n request failed:', error);
+      // Reserve the credit now; it is given back if the generation fails or times out
+      const reserved = await storage.consumeCredit(userId, 'content', {
+        reason: `Content calendar for ${industry}`,
+        contentRequestId: contentRequest.id
+      });
+      if (!reserved) {
         await storage.updateContentRequest(contentRequest.id, {
           status: "failed",
-          errorMessage: `Webhook request failed: ${error.message}`,
+          errorMessage: "No generations left",
           completedAt: new Date()
         });
+        return res.status(403).json(await creditLimitPayload(userId, 'content', req.tenant));
+      }
+
+      // Without an app URL the workflow gets no callbackUrl and answers on the connection we open
+      const appUrl = findAppUrl(req.tenant);
+
+      // The queue dispatches to n8n (or runs the built-in generator), retrying with backoff; the job
+      // is dead-lettered (and the request failed) if it hasn't finished by the deadline
+      await enqueueJob({
+        tenantId: contentRequest.tenantId,
+        userId,
+        type: 'content',
+        contentRequestId: contentRequest.id,
+        payload: generator === "native" ? { industry, selected_topics, generator } : {
+          industry,
+          selected_topics,
+          generator,
+          callbackUrl: appUrl ? `${appUrl}/api/webhook/n8n/${req.tenant ? `${req.tenant.subdomain}/` : ''}${contentRequest.id}` : undefined
+        },
+        deadlineMs: CONTENT_REQUEST_DEADLINE_MS
       });
 
       // Return immediately with request ID for polling
@@ -1077,11 +2216,7 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
       // Update request status to failed if we have a request record
       if (contentRequest && contentRequest.id) {
         try {
-          await storage.updateContentRequest(contentRequest.id, {
-            status: "failed",
-            errorMessage: `Setup error: ${error?.message}`,
-            completedAt: new Date()
-          });
+          await failContentRequest(contentRequest.id, `Setup error: ${error?.message}`);
         } catch (updateError) {
           console.log('Failed to update request status:', updateError);
         }
@@ -1094,51 +2229,174 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
     }
   });
 
-  // Status checking endpoint for polling
-  app.get("/api/content-status/:requestId", async (req, res) => {
-    try {
-      const { requestId } = req.params;
-      const contentRequest = await storage.getContentRequest(parseInt(requestId));
-      
-      if (!contentRequest) {
-        return res.status(404).json({ error: "Request not found" });
+  // Status checking endpoint for polling
+  app.get("/api/content-status/:requestId", isAuthenticated, async (req: AuthRequest, res) => {
+    try {
+      const { requestId } = req.params;
+      let contentRequest = await storage.getContentRequest(parseInt(requestId), getTenantId(req));
+      
+      if (!contentRequest || contentRequest.userId !== req.currentUser!.id) {
+        return res.status(404).json({ error: "Request not found" });
+      }
+
+      if (contentRequest.status === "processing" && Date.now() - contentRequest.createdAt.getTime() > CONTENT_REQUEST_DEADLINE_MS) {
+        await failContentRequest(contentRequest.id, "Generation timed out");
+        contentRequest = (await storage.getContentRequest(contentRequest.id, getTenantId(req)))!;
+      }
+
+      // Scripts are generated by a queued job after the content completes
+      const scripts = {
+        scriptStatus: contentRequest.scriptStatus,
+        ...(contentRequest.scriptStatus === "completed" && contentRequest.scriptContent && {
+          scriptData: {
+            csvBase64: contentRequest.scriptContent,
+            filename: scriptFilename(contentRequest.industry)
+          }
+        })
+      };
+
+      const csv = contentRequest.status === "completed" ? await buildContentCsv(contentRequest) : null;
+      if (csv !== null) {
+        res.json({
+          status: contentRequest.status,
+          csvData: {
+            csvBase64: Buffer.from(csv, 'utf-8').toString('base64'),
+            filename: contentRequest.csvFilename || 'xauti-content.csv'
+          },
+          completedAt: contentRequest.completedAt,
+          ...scripts
+        });
+      } else {
+        res.json({
+          status: contentRequest.status,
+          error: contentRequest.errorMessage,
+          progress: contentRequest.progress,
+          progressMessage: contentRequest.progressMessage,
+          completedAt: contentRequest.completedAt,
+          ...scripts
+        });
+      }
+    } catch (error: any) {
+      console.log('Status check error:', error);
+      res.status(500).json({ error: "Failed to check status" });
+    }
+  });
+
+  // Server-Sent Events for one content request: `status` on every change, `script-progress` per
+  // script day and `result` once a CSV is ready (fetch it from /api/content-status). The current
+  // state is sent on connect, so reconnecting clients catch up.
+  app.get("/api/content-stream/:requestId", isAuthenticated, async (req: AuthRequest, res) => {
+    const requestId = Number(req.params.requestId);
+    if (!Number.isInteger(requestId)) {
+      return res.status(400).json({ error: "Invalid request ID" });
+    }
+
+    let contentRequest: ContentRequest | undefined;
+    try {
+      contentRequest = await storage.getContentRequest(requestId, getTenantId(req));
+    } catch (error: any) {
+      console.error('Content stream error:', error);
+      return res.status(500).json({ error: "Failed to open progress stream" });
+    }
+    if (!contentRequest || contentRequest.userId !== req.currentUser!.id) {
+      return res.status(404).json({ error: "Request not found" });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    let contentReady = false;
+    let scriptsReady = false;
+    let lastStatus = '';
+    const sendState = (request: ContentRequest) => {
+      const status = {
+        status: request.status,
+        progress: request.progress,
+        progressMessage: request.progressMessage,
+        error: request.errorMessage,
+        scriptStatus: request.scriptStatus
+      };
+      // The poll below re-reads rows the subscription may already have delivered
+      const serialized = JSON.stringify(status);
+      if (serialized !== lastStatus) {
+        send('status', status);
+        lastStatus = serialized;
+      }
+
+      // Results are announced once per stream; a new script run resets its flag
+      const hasContent = request.status === "completed";
+      if (hasContent && !contentReady) {
+        send('result', { artifact: 'content', requestId: request.id, filename: request.csvFilename || 'xauti-content.csv' });
+      }
+      contentReady = hasContent;
+
+      const hasScripts = request.scriptStatus === "completed" && !!request.scriptContent;
+      if (hasScripts && !scriptsReady) {
+        send('result', { artifact: 'scripts', requestId: request.id, filename: scriptFilename(request.industry) });
       }
+      scriptsReady = hasScripts;
+    };
 
-      if (contentRequest.status === "completed" && contentRequest.csvBase64) {
-        res.json({
-          status: contentRequest.status,
-          csvData: {
-            csvBase64: contentRequest.csvBase64,
-            filename: contentRequest.csvFilename || 'xauti-content.csv'
-          },
-          completedAt: contentRequest.completedAt
-        });
+    sendState(contentRequest);
+    const unsubscribe = subscribeToRequest(contentRequest.id, event => {
+      if (event.type === "update") {
+        sendState(event.request);
       } else {
-        res.json({
-          status: contentRequest.status,
-          error: contentRequest.errorMessage,
-          completedAt: contentRequest.completedAt
+        send('script-progress', {
+          day: event.day,
+          totalDays: event.totalDays,
+          percent: Math.round((event.day / event.totalDays) * 100)
         });
       }
-    } catch (error: any) {
-      console.log('Status check error:', error);
-      res.status(500).json({ error: "Failed to check status" });
-    }
+    });
+
+    // Events only reach streams on the instance that made the write, so the row is
+    // also re-read to pick up jobs running on other instances
+    const tenantId = getTenantId(req);
+    const poll = setInterval(async () => {
+      try {
+        const latest = await storage.getContentRequest(requestId, tenantId);
+        if (latest) sendState(latest);
+      } catch (error: any) {
+        console.error('Content stream poll error:', error);
+      }
+    }, 5000);
+
+    // Comments keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+    req.on('close', () => {
+      clearInterval(poll);
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
   });
 
 
 
   // Analyze brand tone from user examples
-  app.post("/api/analyze-tone", async (req, res) => {
+  app.post("/api/analyze-tone", isAuthenticated, async (req: AuthRequest, res) => {
     try {
       const { examples } = req.body;
       
       if (!examples) {
         return res.status(400).json({ error: "Writing examples are required" });
       }
+
+      const openai = getOpenAIClient(req.tenant);
+      if (!openai) {
+        return res.status(503).json({ error: "AI generation is not configured for this platform" });
+      }
       
       console.log("Analyzing brand tone from user examples...");
-      const analyzedTone = await analyzeBrandTone(examples);
+      const analyzedTone = await analyzeBrandTone(openai, examples);
       
       res.json({
         success: true,
@@ -1152,143 +2410,94 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
   });
 
   // Generate daily scripts for text-to-speech with custom tone and CTA (Pro+ only)
-  app.post("/api/generate-scripts", async (req, res) => {
+  app.post("/api/generate-scripts", isAuthenticated, async (req: AuthRequest, res) => {
+    let claimedFor: number | null = null;
+    let creditTaken = false;
     try {
-      const { requestId, brandTone, callToAction, useDefaultTone, userEmail } = req.body;
+      const { requestId, brandTone, callToAction, useDefaultTone } = req.body;
+      const user = req.currentUser!;
       
       if (!requestId) {
         return res.status(400).json({ error: "Request ID is required" });
       }
       
-      const contentRequest = await storage.getContentRequest(requestId);
-      if (!contentRequest) {
+      const contentRequest = await storage.getContentRequest(requestId, getTenantId(req));
+      if (!contentRequest || contentRequest.userId !== user.id) {
         return res.status(404).json({ error: "Content request not found" });
       }
+      // Scripts are written from the finished calendar, so check before any credit is taken
+      if (contentRequest.status !== "completed") {
+        return res.status(409).json({ error: "Content generation hasn't finished for this request" });
+      }
+      if (contentRequest.scriptStatus === "processing") {
+        return res.status(409).json({ error: "Scripts are already being generated for this request" });
+      }
 
-      // Check if user has Pro+ access for script generation
-      if (userEmail) {
-        const user = await storage.getUserByEmail(userEmail);
-        if (user) {
-          const tier = user.subscriptionTier || 'free';
-          if (tier === 'free' || tier === 'basic') {
-            return res.status(403).json({ 
-              error: "Script generation is only available for Pro ($27) and Unlimited ($99+) subscribers." 
-            });
-          }
-        }
+      if (!getOpenAIClient(req.tenant)) {
+        return res.status(503).json({ error: "AI generation is not configured for this platform" });
       }
-      
+
       const finalBrandTone = useDefaultTone ? DEFAULT_BRAND_TONE : (brandTone || DEFAULT_BRAND_TONE);
       const finalCallToAction = callToAction || "";
-      
-      console.log("Generating 30-day script collection with custom tone...");
-      
-      const industry = contentRequest.industry;
-      const topics = Array.isArray(contentRequest.selectedTopics) 
-        ? contentRequest.selectedTopics 
-        : [];
-      
-      // Generate 30 daily scripts with custom tone
-      const scripts = [];
-      for (let day = 1; day <= 30; day++) {
-        try {
-          const dailyScript = await generateDailyScript(industry, topics, day, finalBrandTone, finalCallToAction);
-          scripts.push({
-            day,
-            script: dailyScript
-          });
-        } catch (error) {
-          console.error(`Error generating script for day ${day}:`, error);
-          scripts.push({
-            day,
-            script: `Day ${day}: Share your expertise in ${industry}. Connect with your audience through authentic storytelling and valuable insights. Your voice matters.`
-          });
-        }
-      }
-      
-      // Create CSV content with daily scripts
-      const csvHeader = "Day,Script\n";
-      const csvRows = scripts.map(s => `${s.day},"${s.script.replace(/"/g, '""')}"`).join('\n');
-      const csvContent = csvHeader + csvRows;
-      
-      const scriptBase64 = Buffer.from(csvContent, 'utf-8').toString('base64');
-      
-      // Update the content request with script data and tone preferences
-      await storage.updateContentRequest(requestId, {
-        scriptContent: scriptBase64,
+
+      // Claim the request (saving the tone preferences) before charging, so concurrent
+      // requests for the same calendar can't both start a run
+      const claimed = await storage.claimScriptGeneration(contentRequest.id, {
         brandTone: finalBrandTone,
         callToAction: finalCallToAction
       });
-      
-      res.json({
+      if (!claimed) {
+        return res.status(409).json({ error: "Scripts are already being generated for this request" });
+      }
+      claimedFor = contentRequest.id;
+
+      // Pro and Unlimited draw on their monthly allowance, everyone else on purchased script credits
+      const consumed = await storage.consumeCredit(user.id, 'script', {
+        reason: `Video scripts for ${contentRequest.industry}`,
+        contentRequestId: contentRequest.id
+      });
+      if (!consumed) {
+        await storage.updateContentRequest(contentRequest.id, { scriptStatus: contentRequest.scriptStatus });
+        return res.status(403).json(await creditLimitPayload(user.id, 'script', req.tenant));
+      }
+      creditTaken = true;
+
+      // The queued job writes the scripts and returns the credit if it dies
+      await enqueueJob({
+        tenantId: contentRequest.tenantId,
+        userId: user.id,
+        type: 'script',
+        contentRequestId: contentRequest.id,
+        payload: { brandTone: finalBrandTone, callToAction: finalCallToAction },
+        deadlineMs: SCRIPT_JOB_DEADLINE_MS
+      });
+
+      res.status(202).json({
         success: true,
-        scriptData: {
-          csvBase64: scriptBase64,
-          filename: `scripts_${industry.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date().toISOString().split('T')[0]}.csv`
-        }
+        requestId: contentRequest.id,
+        scriptStatus: "processing"
       });
       
     } catch (error) {
       console.error("Error generating scripts:", error);
+      if (claimedFor !== null) {
+        await storage.updateContentRequest(claimedFor, { scriptStatus: "failed" }).catch(updateError => {
+          console.error("Error updating script status:", updateError);
+        });
+      }
+      if (claimedFor !== null && creditTaken) {
+        await storage.releaseCredit(claimedFor, 'script', `Script generation failed (request #${claimedFor})`).catch(releaseError => {
+          console.error("Error returning script credit:", releaseError);
+        });
+      }
       res.status(500).json({ error: "Failed to generate scripts" });
     }
   });
 
-  // Debug endpoint to see raw webhook data
-  app.post("/api/webhook-debug", async (req, res) => {
-    console.log('=== WEBHOOK DEBUG ===');
-    console.log('Headers:', req.headers);
-    console.log('Body:', JSON.stringify(req.body, null, 2));
-    console.log('Body keys:', Object.keys(req.body));
-    console.log('==================');
-    
-    // Return detailed info about the data structure
-    const response = {
-      success: true,
-      message: "Webhook received successfully",
-      dataStructure: {
-        bodyKeys: Object.keys(req.body),
-        hasContactObject: !!req.body.contact,
-        hasContactEmail: !!req.body['contact.email'],
-        hasDirectEmail: !!req.body.email,
-        fullBody: req.body
-      }
-    };
-    
-    res.json(response);
-  });
-
-
-
-  // Simple webhook that accepts everything - for HighLevel debugging
-  app.all("/api/highlevel/webhook", (req, res) => {
-    console.log(`=== HIGHLEVEL WEBHOOK ${req.method} RECEIVED ===`);
-    console.log('URL:', req.url);
-    console.log('Path:', req.path);
-    console.log('Headers:', JSON.stringify(req.headers, null, 2));
-    console.log('Body:', JSON.stringify(req.body, null, 2));
-    console.log('Body type:', typeof req.body);
-    console.log('Body keys:', Object.keys(req.body || {}));
-    console.log('Raw body:', req.body);
-    console.log('Query params:', req.query);
-    console.log('================================================');
-    
-    // Always return success regardless of data format
-    res.status(200).json({
-      success: true,
-      message: "HighLevel webhook processed successfully",
-      method: req.method,
-      path: req.path,
-      receivedData: req.body,
-      queryParams: req.query,
-      timestamp: new Date().toISOString()
-    });
-  });
-
   // Subscription management routes
   
   // Update user subscription tier (for HighLevel integration or manual updates)
-  app.post("/api/subscription/update", async (req, res) => {
+  app.post("/api/subscription/update", isAuthenticated, requireRole("platform_admin"), async (req, res) => {
     try {
       const { userId, subscriptionTier, tags } = req.body;
       
@@ -1296,22 +2505,23 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
         return res.status(400).json({ error: "User ID and subscription tier are required" });
       }
 
-      // Set generation limits based on tier
-      const tierLimits = {
-        free: 0,
-        basic: 2,
-        pro: 10,
-        unlimited: 999999 // Effectively unlimited
-      };
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
 
-      const generationsLimit = tierLimits[subscriptionTier as keyof typeof tierLimits] || 0;
+      // Allowances come from the plan catalog of the user's tenant
+      const tenant = user.tenantId ? await storage.getTenant(user.tenantId) : null;
+      if (!findPlan(tenant, subscriptionTier)) {
+        return res.status(400).json({ error: `Unknown plan: ${subscriptionTier}` });
+      }
 
       const updatedUser = await storage.updateUserSubscription(userId, {
         subscriptionTier,
         subscriptionStatus: "active",
         subscriptionEndDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days from now
         tags: tags || [],
-        generationsLimit: generationsLimit
+        ...planAllowances(tenant, subscriptionTier)
       });
 
       res.json({
@@ -1326,26 +2536,34 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
   });
 
   // Purchase additional generations ($7 per generation)
-  app.post("/api/purchase-generations", async (req, res) => {
+  app.post("/api/purchase-generations", isAuthenticated, async (req: AuthRequest, res) => {
+    const stripe = getStripeClient(req.tenant);
     if (!stripe) {
       return res.status(503).json({ error: "Payment processing not configured" });
     }
 
     try {
-      const { userId, generationCount = 1 } = req.body;
-      
-      if (!userId) {
-        return res.status(400).json({ error: "User ID is required" });
+      const parsed = contentPurchaseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid generation count", details: parsed.error.errors });
       }
+      const { generationCount } = parsed.data;
+      const userId = req.currentUser!.id;
 
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      const tier = req.currentUser!.subscriptionTier || 'free';
+      const amountPerGeneration = findPlan(req.tenant, tier)?.creditPrices.content ?? null; // in cents
+      if (amountPerGeneration === null) {
+        return res.status(403).json({ error: "Content generations can't be purchased on your plan" });
       }
-
-      const amountPerGeneration = 700; // $7.00 in cents
       const totalAmount = amountPerGeneration * generationCount;
 
+      const purchaseMetadata = {
+        userId: userId.toString(),
+        generationCount: generationCount.toString(),
+        type: "content_generation_purchase",
+        ...stripeTenantMetadata(req.tenant)
+      };
+
       // Create Stripe checkout session
       const session = await stripe.checkout.sessions.create({
         payment_method_types: ['card'],
@@ -1363,13 +2581,11 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
           },
         ],
         mode: 'payment',
-        success_url: `${req.headers.origin}/settings?payment=success`,
-        cancel_url: `${req.headers.origin}/settings?payment=cancelled`,
-        metadata: {
-          userId: userId.toString(),
-          generationCount: generationCount.toString(),
-          type: "content_generation_purchase"
-        },
+        success_url: `${getAppUrl(req.tenant)}/settings?payment=success`,
+        cancel_url: `${getAppUrl(req.tenant)}/settings?payment=cancelled`,
+        metadata: purchaseMetadata,
+        // Copied onto the payment intent so /api/purchase/confirm can tell what was bought
+        payment_intent_data: { metadata: purchaseMetadata },
       });
 
       res.json({
@@ -1385,31 +2601,35 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
   });
 
   // Purchase script generations with tier-based pricing
-  app.post("/api/purchase-script-generations", async (req, res) => {
+  app.post("/api/purchase-script-generations", isAuthenticated, async (req: AuthRequest, res) => {
+    const stripe = getStripeClient(req.tenant);
     if (!stripe) {
       return res.status(503).json({ error: "Payment processing not configured" });
     }
 
     try {
-      const { userId, scriptCount = 1 } = req.body;
-      
-      if (!userId) {
-        return res.status(400).json({ error: "User ID is required" });
-      }
-
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      const parsed = scriptPurchaseSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid script count", details: parsed.error.errors });
       }
+      const { scriptCount } = parsed.data;
+      const user = req.currentUser!;
+      const userId = user.id;
 
+      // Script pricing (and whether scripts can be bought at all) depends on the plan
       const tier = user.subscriptionTier || 'free';
-      if (tier === 'free') {
-        return res.status(403).json({ error: "Script generations require at least a Basic subscription" });
+      const pricePerScript = findPlan(req.tenant, tier)?.creditPrices.script ?? null; // in cents
+      if (pricePerScript === null) {
+        return res.status(403).json({ error: "Script generations can't be purchased on your plan" });
       }
-
-      // Tier-based pricing: $10 for Basic, $7 for Pro+
-      const pricePerScript = tier === 'basic' ? 1000 : 700; // in cents
       const totalAmount = pricePerScript * scriptCount;
+      const purchaseMetadata = {
+        userId: userId.toString(),
+        scriptCount: scriptCount.toString(),
+        type: "script_generation_purchase",
+        tier: tier,
+        ...stripeTenantMetadata(req.tenant)
+      };
 
       // Create Stripe checkout session
       const session = await stripe.checkout.sessions.create({
@@ -1428,14 +2648,10 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
           },
         ],
         mode: 'payment',
-        success_url: `${req.headers.origin}/settings?payment=success&type=script`,
-        cancel_url: `${req.headers.origin}/settings?payment=cancelled`,
-        metadata: {
-          userId: userId.toString(),
-          scriptCount: scriptCount.toString(),
-          type: "script_generation_purchase",
-          tier: tier
-        },
+        success_url: `${getAppUrl(req.tenant)}/settings?payment=success&type=script`,
+        cancel_url: `${getAppUrl(req.tenant)}/settings?payment=cancelled`,
+        metadata: purchaseMetadata,
+        payment_intent_data: { metadata: purchaseMetadata },
       });
 
       res.json({
@@ -1451,138 +2667,62 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
     }
   });
 
-  // Stripe webhook endpoint to handle payment completions
-  app.post('/api/webhook/stripe', (req, res, next) => {
-    if (req.get('content-type') === 'application/json') {
-      req.setEncoding('utf8');
-      req.rawBody = '';
-      req.on('data', (chunk) => {
-        req.rawBody += chunk;
-      });
-      req.on('end', () => {
-        next();
-      });
-    } else {
-      next();
-    }
-  }, async (req, res) => {
-    if (!stripe) {
-      return res.status(503).json({ error: "Stripe not configured" });
+  // Stripe webhooks: the platform account posts to /api/webhook/stripe, each tenant's
+  // own Stripe account posts to /api/webhook/stripe/<subdomain>
+  app.post('/api/webhook/stripe', async (req, res) => {
+    try {
+      await receiveStripeWebhook(req, res, null);
+    } catch (error) {
+      webhookFailed(res, 'Stripe', error);
     }
+  });
 
-    const sig = req.headers['stripe-signature'];
-    let event;
-
+  app.post('/api/webhook/stripe/:subdomain', async (req, res) => {
     try {
-      if (!sig) {
-        return res.status(400).send('Missing stripe signature');
+      const tenant = await getWebhookTenant(req.params.subdomain);
+      if (!tenant) {
+        return res.status(404).send('Unknown tenant');
       }
-      
-      const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET || 'whsec_itTSfr1MeGorNhr8LyT12cg1FBrisEm1';
-      if (!webhookSecret) {
-        console.log('Warning: STRIPE_WEBHOOK_SECRET not configured');
-        return res.status(500).send('Webhook secret not configured');
-      }
-
-      event = stripe.webhooks.constructEvent(req.rawBody || req.body, sig, webhookSecret);
-    } catch (err: any) {
-      console.log(`Webhook signature verification failed.`, err.message);
-      return res.status(400).send(`Webhook Error: ${err.message}`);
-    }
-
-    // Handle the event
-    switch (event.type) {
-      case 'checkout.session.completed':
-        const session = event.data.object as any;
-        
-        try {
-          if (!session.metadata) {
-            console.log('No metadata found in session');
-            break;
-          }
-
-          const userId = parseInt(session.metadata.userId);
-          const purchaseType = session.metadata.type;
-          
-          if (purchaseType === 'content_generation_purchase') {
-            const generationCount = parseInt(session.metadata.generationCount);
-            
-            // Record the purchase
-            await storage.createGenerationPurchase({
-              userId,
-              generationsAdded: generationCount,
-              amountPaid: session.amount_total || 0,
-              stripePaymentIntentId: typeof session.payment_intent === 'string' ? session.payment_intent : null,
-              paymentStatus: "completed"
-            });
-
-            // Add content generations to user's account
-            await storage.addGenerationsToUser(userId, generationCount, 'content');
-            
-            console.log(`Added ${generationCount} content generations to user ${userId}`);
-            
-          } else if (purchaseType === 'script_generation_purchase') {
-            const scriptCount = parseInt(session.metadata.scriptCount);
-            
-            // Record the purchase
-            await storage.createGenerationPurchase({
-              userId,
-              generationsAdded: scriptCount,
-              amountPaid: session.amount_total || 0,
-              stripePaymentIntentId: typeof session.payment_intent === 'string' ? session.payment_intent : null,
-              paymentStatus: "completed"
-            });
-
-            // Add script generations to user's account
-            await storage.addGenerationsToUser(userId, scriptCount, 'script');
-            
-            console.log(`Added ${scriptCount} script generations to user ${userId}`);
-          }
-          
-        } catch (error) {
-          console.error('Error processing webhook:', error);
-        }
-        break;
-      default:
-        console.log(`Unhandled event type ${event.type}`);
+      await receiveStripeWebhook(req, res, tenant);
+    } catch (error) {
+      webhookFailed(res, 'Stripe', error);
     }
-
-    res.json({received: true});
   });
 
   // Manual fix for missing generations (admin only)
-  app.post("/api/admin/fix-generations", async (req, res) => {
+  app.post("/api/admin/fix-generations", async (req: AuthRequest, res) => {
     try {
-      const { userEmail, generationType, count } = req.body;
+      const { userEmail, generationType, count, reason, tenantId = null } = req.body;
       
       if (!userEmail || !generationType || !count) {
         return res.status(400).json({ error: "Email, generation type, and count are required" });
       }
 
-      // Find user by email
-      const user = await storage.getUserByEmail(userEmail);
+      const amount = parseInt(count);
+      if (!CREDIT_TYPES.includes(generationType) || isNaN(amount) || amount === 0) {
+        return res.status(400).json({ error: "Generation type must be content or script, and count a non-zero number" });
+      }
+
+      // Find user by email (tenantId selects a white label client; omit for the main platform)
+      const user = await storage.getUserByEmail(userEmail, tenantId);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
       }
 
-      // Add generations to user's account
-      await storage.addGenerationsToUser(user.id, parseInt(count));
-      
-      // Record the manual addition
-      await storage.createGenerationPurchase({
-        userId: user.id,
-        generationsAdded: parseInt(count),
-        amountPaid: 0, // Manual addition
-        stripePaymentIntentId: null,
-        paymentStatus: "manual_addition"
+      // Record the adjustment (negative counts remove credits) against the admin making it
+      const entry = await storage.adjustCredits(user.id, generationType, amount, {
+        reason: reason || (amount > 0 ? "Manual addition" : "Manual removal"),
+        actorType: "admin",
+        actorUserId: req.currentUser!.id
       });
 
-      console.log(`Manually added ${count} ${generationType} generations to user ${userEmail}`);
+      console.log(`Manually adjusted ${generationType} generations for user ${userEmail} by ${amount}`);
 
       res.json({
         success: true,
-        message: `Added ${count} ${generationType} generations to ${userEmail}`,
-        user: await storage.getUser(user.id)
+        message: `${amount > 0 ? 'Added' : 'Removed'} ${Math.abs(amount)} ${generationType} generations ${amount > 0 ? 'to' : 'from'} ${userEmail}`,
+        entry,
+        user: await toAccountUser((await storage.getUser(user.id))!)
       });
     } catch (error: any) {
       console.error('Manual generation fix error:', error);
@@ -1591,7 +2731,8 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
   });
 
   // Get checkout URL for session
-  app.post("/api/get-checkout-url", async (req, res) => {
+  app.post("/api/get-checkout-url", async (req: AuthRequest, res) => {
+    const stripe = getStripeClient(req.tenant);
     if (!stripe) {
       return res.status(503).json({ error: "Payment processing not configured" });
     }
@@ -1618,7 +2759,8 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
   });
 
   // Handle successful payment and add generations
-  app.post("/api/purchase/confirm", async (req, res) => {
+  app.post("/api/purchase/confirm", async (req: AuthRequest, res) => {
+    const stripe = getStripeClient(req.tenant);
     if (!stripe) {
       return res.status(503).json({ error: "Payment processing not configured" });
     }
@@ -1637,26 +2779,57 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
         return res.status(400).json({ error: "Payment not successful" });
       }
 
+      // Credit the pool the checkout was for, as the webhook does
+      const purchaseType = paymentIntent.metadata.type;
+      const isScriptPurchase = purchaseType === 'script_generation_purchase';
+      if (!isScriptPurchase && purchaseType !== 'content_generation_purchase') {
+        return res.status(400).json({ error: "Payment is not a generation purchase" });
+      }
+
       const userId = parseInt(paymentIntent.metadata.userId);
-      const generationCount = parseInt(paymentIntent.metadata.generationCount);
+      const generationCount = parseInt(isScriptPurchase ? paymentIntent.metadata.scriptCount : paymentIntent.metadata.generationCount);
+      const tenantId = getTenantId(req);
+      const purchaser = await storage.getUser(userId, tenantId);
+      if (!purchaser) {
+        return res.status(404).json({ error: "User not found" });
+      }
 
-      // Record the purchase
-      await storage.createGenerationPurchase({
-        userId,
-        generationsAdded: generationCount,
-        amountPaid: paymentIntent.amount,
-        stripePaymentIntentId: paymentIntentId,
-        paymentStatus: "completed"
+      // Shares the payment intent key with the webhook, so only one of them credits it
+      const creditedUser = await storage.applyStripeCredit({
+        event: {
+          tenantId,
+          eventId: null,
+          paymentIntentId,
+          type: 'payment_intent.succeeded',
+          source: 'confirm',
+          userId
+        },
+        purchase: {
+          tenantId,
+          userId,
+          generationsAdded: generationCount,
+          amountPaid: paymentIntent.amount,
+          stripePaymentIntentId: paymentIntentId,
+          paymentStatus: "completed"
+        },
+        generationType: isScriptPurchase ? 'script' : 'content'
       });
 
-      // Add generations to user's account
-      const updatedUser = await storage.addGenerationsToUser(userId, generationCount);
+      if (!creditedUser) {
+        return res.json({
+          success: true,
+          alreadyApplied: true,
+          user: toPublicUser(purchaser),
+          generationsAdded: 0,
+          message: "This payment has already been added to your account"
+        });
+      }
 
       res.json({
         success: true,
-        user: updatedUser,
+        user: toPublicUser(creditedUser),
         generationsAdded: generationCount,
-        message: `Successfully added ${generationCount} generation${generationCount > 1 ? 's' : ''} to your account`
+        message: `Successfully added ${generationCount} ${isScriptPurchase ? 'script' : 'content'} generation${generationCount > 1 ? 's' : ''} to your account`
       });
     } catch (error: any) {
       console.error('Payment confirmation error:', error);
@@ -1665,86 +2838,33 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
   });
 
   // Manual user sync endpoint for testing
-  app.post("/api/manual-sync", async (req, res) => {
+  app.post("/api/manual-sync", isAuthenticated, requireRole("platform_admin"), async (req, res) => {
     try {
-      const { email, tags } = req.body;
+      const { email, tags, tenantId = null } = req.body;
       
       if (!email) {
         return res.status(400).json({ error: "Email is required" });
       }
 
-      // Get or create user
-      let user = await storage.getUserByEmail(email);
+      // Get or create user (tenantId selects a white label client; omit for the main platform)
+      let user = await storage.getUserByEmail(email, tenantId);
       if (!user) {
         user = await storage.createUser({
+          tenantId,
           name: email.split('@')[0],
           email: email,
-          password: 'password123' // Default password for manual sync users
+          password: null // No shared default - the user sets their own password
         });
+        await sendUserInvitation(user);
       }
 
-      // Map plan tags to subscription tiers
-      const planMapping = {
-        "$3 No Code Tool Automation and Content Creator Access": "basic",
-        "$3 No Code Tool Automation": "basic",
-        "$3 Content Creator Access": "basic",
-        "$3": "basic",
-        "XAUTI 27 CONTENT TOOL": "pro", 
-        "XAUTI CRM BUSINESS IN A BOX": "unlimited",
-        "XAUTI CRM UNOCK": "unlimited"
-      };
-
-      let subscriptionTier = "free"; // Start with free tier
-      let generationsLimit = 0; // Start with no generations
-
-      // Check if specific tags were provided - prioritize highest tier found
-      let foundTier = "free";
-      if (tags && Array.isArray(tags)) {
-        for (const tag of tags) {
-          const tagLower = tag.toLowerCase();
-          console.log(`Manual sync checking tag: "${tag}" (lowercase: "${tagLower}")`);
-          
-          // Check for unlimited tier first (highest value)
-          if (tagLower.includes('xauti crm business') || 
-              tagLower.includes('business in a box') || 
-              tagLower.includes('$99') || 
-              tagLower.includes('99 plan') || 
-              tagLower.includes('unlimited')) {
-            foundTier = "unlimited";
-            console.log(`Manual sync found UNLIMITED plan tag: ${tag} -> ${foundTier}`);
-            break; // Stop at highest tier
-          }
-          // Check for pro tier
-          else if (tagLower.includes('27') || 
-                   tagLower.includes('xauti 27') ||
-                   tagLower.includes('content tool')) {
-            if (foundTier === "free") foundTier = "pro"; // Only if no higher tier found
-            console.log(`Manual sync found PRO plan tag: ${tag} -> ${foundTier}`);
-          }
-          // Check for basic tier
-          else if (tagLower.includes('$3') || 
-                   tagLower.includes('3 dollar') || 
-                   tagLower.includes('automation')) {
-            if (foundTier === "free") foundTier = "basic"; // Only if no higher tier found
-            console.log(`Manual sync found BASIC plan tag: ${tag} -> ${foundTier}`);
-          }
-          
-          // Direct mapping check
-          if (planMapping[tag as keyof typeof planMapping]) {
-            const directTier = planMapping[tag as keyof typeof planMapping];
-            if (directTier === "unlimited" || (directTier === "pro" && foundTier !== "unlimited") || (directTier === "basic" && foundTier === "free")) {
-              foundTier = directTier;
-              console.log(`Manual sync found EXACT plan tag: ${tag} -> ${foundTier}`);
-            }
-          }
-        }
-        subscriptionTier = foundTier;
-        console.log(`Manual sync final subscription tier: ${subscriptionTier}`);
-      }
+      // Map plan tags to a subscription tier with the tenant's tag rules
+      const evaluation = await resolveTierFromTags(tenantId, tags);
+      const subscriptionTier = evaluation.tier;
+      console.log(`Manual sync final subscription tier: ${subscriptionTier}`);
 
-      // Set generation limits
-      const tierLimits = { free: 0, basic: 2, pro: 10, unlimited: 999999 };
-      generationsLimit = tierLimits[subscriptionTier as keyof typeof tierLimits] || 2;
+      // Set generation limits from the plan catalog of the user's tenant
+      const tenant = tenantId ? await storage.getTenant(tenantId) : null;
 
       // Update user subscription
       const updatedUser = await storage.updateUserSubscription(user.id, {
@@ -1752,7 +2872,7 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
         subscriptionStatus: "active",
         subscriptionEndDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
         tags: tags || ["$3"],
-        generationsLimit: generationsLimit
+        ...planAllowances(tenant, subscriptionTier)
       });
 
       res.json({
@@ -1767,10 +2887,9 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
   });
 
   // Get user's content generation history
-  app.get("/api/user-history/:userId", async (req, res) => {
+  app.get("/api/user-history", isAuthenticated, async (req: AuthRequest, res) => {
     try {
-      const { userId } = req.params;
-      const contentRequests = await storage.getContentRequestsByUserId(parseInt(userId));
+      const contentRequests = await storage.getContentRequestsByUserId(req.currentUser!.id, getTenantId(req));
       
       // Sort by creation date, newest first
       const sortedRequests = contentRequests.sort((a, b) => 
@@ -1788,16 +2907,11 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
   });
 
   // Delete content request
-  app.delete("/api/content-request/:requestId", async (req, res) => {
+  app.delete("/api/content-request/:requestId", isAuthenticated, async (req: AuthRequest, res) => {
     try {
       const { requestId } = req.params;
-      const { userId } = req.body;
-      
-      if (!userId) {
-        return res.status(400).json({ error: "User ID is required" });
-      }
       
-      await storage.deleteContentRequest(parseInt(requestId), userId);
+      await storage.deleteContentRequest(parseInt(requestId), req.currentUser!.id);
       
       res.json({
         success: true,
@@ -1809,47 +2923,136 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
     }
   });
 
-  // Get user subscription and usage info
-  app.get("/api/subscription/status/:userId", async (req, res) => {
+  // Content items: the individual posts of a completed calendar. The owner can list (filtered by
+  // `platform` and `q`), add, edit and remove them; the CSV download is rebuilt from them.
+  const getOwnedContentRequest = async (req: AuthRequest) => {
+    const contentRequest = await storage.getContentRequest(parseInt(req.params.requestId), getTenantId(req));
+    return contentRequest && contentRequest.userId === req.currentUser!.id ? contentRequest : undefined;
+  };
+
+  app.get("/api/content-request/:requestId/items", isAuthenticated, async (req: AuthRequest, res) => {
     try {
-      const { userId } = req.params;
-      const user = await storage.getUser(parseInt(userId));
-      
-      if (!user) {
-        return res.status(404).json({ error: "User not found" });
+      const contentRequest = await getOwnedContentRequest(req);
+      if (!contentRequest) {
+        return res.status(404).json({ error: "Request not found" });
       }
+      const { platform, q } = req.query as Record<string, string | undefined>;
+      res.json(await storage.getContentItems(contentRequest.id, { platform: platform || undefined, search: q?.trim() || undefined }));
+    } catch (error: any) {
+      console.error('Content items error:', error);
+      res.status(500).json({ error: "Failed to load content items" });
+    }
+  });
 
-      const tierInfo = {
-        free: { limit: 0, name: "Free", price: "$0" },
-        basic: { limit: 2, name: "Basic", price: "$3" },
-        pro: { limit: 10, name: "Pro", price: "$27" },
-        unlimited: { limit: 999999, name: "Unlimited", price: "$99+" }
-      };
+  app.post("/api/content-request/:requestId/items", isAuthenticated, async (req: AuthRequest, res) => {
+    try {
+      const contentRequest = await getOwnedContentRequest(req);
+      if (!contentRequest) {
+        return res.status(404).json({ error: "Request not found" });
+      }
+      const parsed = contentItemSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid content item", details: parsed.error.errors });
+      }
+      res.status(201).json(await storage.createContentItem(contentRequest, parsed.data));
+    } catch (error: any) {
+      console.error('Content item create error:', error);
+      res.status(500).json({ error: "Failed to add content item" });
+    }
+  });
+
+  app.patch("/api/content-request/:requestId/items/:itemId", isAuthenticated, async (req: AuthRequest, res) => {
+    try {
+      const contentRequest = await getOwnedContentRequest(req);
+      if (!contentRequest) {
+        return res.status(404).json({ error: "Request not found" });
+      }
+      const parsed = contentItemUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid content item", details: parsed.error.errors });
+      }
+      const item = await storage.updateContentItem(parseInt(req.params.itemId), contentRequest.id, parsed.data);
+      if (!item) {
+        return res.status(404).json({ error: "Content item not found" });
+      }
+      res.json(item);
+    } catch (error: any) {
+      console.error('Content item update error:', error);
+      res.status(500).json({ error: "Failed to update content item" });
+    }
+  });
+
+  app.delete("/api/content-request/:requestId/items/:itemId", isAuthenticated, async (req: AuthRequest, res) => {
+    try {
+      const contentRequest = await getOwnedContentRequest(req);
+      if (!contentRequest) {
+        return res.status(404).json({ error: "Request not found" });
+      }
+      if (!await storage.deleteContentItem(parseInt(req.params.itemId), contentRequest.id)) {
+        return res.status(404).json({ error: "Content item not found" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error('Content item delete error:', error);
+      res.status(500).json({ error: "Failed to delete content item" });
+    }
+  });
 
-      const userTier = (user.subscriptionTier || 'free') as keyof typeof tierInfo;
-      const currentTier = tierInfo[userTier];
-      const canGenerate = await storage.checkUserCanGenerate(parseInt(userId));
+  // Download the calendar as CSV, generated from the current content items
+  app.get("/api/content-request/:requestId/csv", isAuthenticated, async (req: AuthRequest, res) => {
+    try {
+      const contentRequest = await getOwnedContentRequest(req);
+      if (!contentRequest) {
+        return res.status(404).json({ error: "Request not found" });
+      }
+      const csv = contentRequest.status === "completed" ? await buildContentCsv(contentRequest) : null;
+      if (csv === null) {
+        return res.status(409).json({ error: "Content is not ready yet" });
+      }
+      const filename = (contentRequest.csvFilename || 'xauti-content.csv').replace(/[^\w.\-]/g, '_');
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(csv);
+    } catch (error: any) {
+      console.error('Content CSV error:', error);
+      res.status(500).json({ error: "Failed to build CSV" });
+    }
+  });
 
-      // Calculate total available generations
-      const tierLimit = currentTier.limit;
-      const totalLimit = tierLimit + (user.generationsLimit || 0);
+  // Get user subscription and usage info
+  app.get("/api/subscription/status", isAuthenticated, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.refreshUsagePeriod(req.currentUser!);
+      const balances = await storage.getCreditBalances(user);
+
+      const userTier = user.subscriptionTier || 'free';
+      const currentTier = findPlan(req.tenant, userTier);
+      const canGenerate = balances.content.available > 0;
 
       res.json({
         success: true,
         subscription: {
           tier: userTier,
-          tierName: currentTier.name,
-          tierPrice: currentTier.price,
+          tierName: currentTier?.name ?? userTier,
+          tierPrice: formatPlanPrice(currentTier?.price ?? 0),
           status: user.subscriptionStatus || 'inactive',
-          endDate: user.subscriptionEndDate
+          endDate: user.subscriptionEndDate,
+          managedByStripe: !!user.stripeSubscriptionId,
+          hasBillingPortal: !!user.stripeCustomerId
         },
         usage: {
-          generationsUsed: user.generationsUsed || 0,
-          generationsLimit: user.generationsLimit || 0,
-          tierLimit: tierLimit,
-          totalLimit: totalLimit,
+          periodStart: user.currentPeriodStart,
+          periodEnd: user.currentPeriodEnd,
+          generationsUsed: balances.content.used,
+          generationsLimit: balances.content.allowance,
+          tierLimit: currentTier?.generationsLimit ?? 0,
+          purchasedGenerations: balances.content.purchased,
+          scriptGenerationsUsed: balances.script.used,
+          scriptGenerationsLimit: balances.script.allowance,
+          purchasedScriptGenerations: balances.script.purchased,
           canGenerate: canGenerate,
-          remainingGenerations: Math.max(0, totalLimit - (user.generationsUsed || 0))
+          // Period allowance plus the purchased balance, which carries over between periods
+          remainingGenerations: balances.content.available
         },
         tags: user.tags || []
       });
@@ -1859,6 +3062,118 @@ Last Modified: ${new Date(responseData.modifiedTime).toLocaleDateString()}`;
     }
   });
 
+  // The signed-in user's credit history and the balances derived from it
+  app.get("/api/credits/ledger", isAuthenticated, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.refreshUsagePeriod(req.currentUser!);
+      const [entries, balances] = await Promise.all([
+        storage.getCreditLedger(user.id, getTenantId(req)),
+        storage.getCreditBalances(user)
+      ]);
+
+      res.json({
+        periodStart: user.currentPeriodStart,
+        periodEnd: user.currentPeriodEnd,
+        balances,
+        entries
+      });
+    } catch (error: any) {
+      console.error('Credit ledger error:', error);
+      res.status(500).json({ error: "Failed to load credit history" });
+    }
+  });
+
+  // Start a Stripe Checkout session for a monthly plan
+  app.post("/api/subscription/checkout", isAuthenticated, async (req: AuthRequest, res) => {
+    const stripe = getStripeClient(req.tenant);
+    if (!stripe) {
+      return res.status(503).json({ error: "Payment processing not configured" });
+    }
+
+    try {
+      const { tier } = req.body;
+      const plan = findPlan(req.tenant, tier);
+      if (!plan || !plan.features.checkout) {
+        return res.status(400).json({ error: "That plan isn't available for checkout" });
+      }
+
+      let user = req.currentUser!;
+      if (user.stripeSubscriptionId && user.subscriptionStatus !== 'canceled') {
+        return res.status(400).json({ error: "You already have a subscription. Use Manage Billing to change your plan." });
+      }
+
+      // Reuse one Stripe customer per user so the Customer Portal shows their full history
+      if (!user.stripeCustomerId) {
+        const customer = await stripe.customers.create({
+          email: user.email,
+          name: user.name,
+          metadata: { userId: user.id.toString() }
+        });
+        user = await storage.updateUserSubscription(user.id, { stripeCustomerId: customer.id });
+      }
+
+      const metadata = { userId: user.id.toString(), tier, type: "subscription", ...stripeTenantMetadata(req.tenant) };
+      const session = await stripe.checkout.sessions.create({
+        mode: 'subscription',
+        customer: user.stripeCustomerId!,
+        line_items: [
+          plan.stripePriceId ? { price: plan.stripePriceId, quantity: 1 } : {
+            price_data: {
+              currency: 'usd',
+              product_data: {
+                name: `${plan.name} Plan`,
+                description: plan.features.unlimited
+                  ? 'Unlimited content generations every month'
+                  : `${plan.generationsLimit} content generations every month`,
+              },
+              unit_amount: plan.price,
+              recurring: { interval: 'month' },
+            },
+            quantity: 1,
+          },
+        ],
+        subscription_data: { metadata },
+        metadata,
+        success_url: `${getAppUrl(req.tenant)}/settings?subscription=success`,
+        cancel_url: `${getAppUrl(req.tenant)}/settings?subscription=cancelled`,
+      });
+
+      res.json({
+        success: true,
+        sessionId: session.id,
+        url: session.url
+      });
+    } catch (error: any) {
+      console.error('Subscription checkout error:', error);
+      res.status(500).json({ error: "Failed to create checkout session" });
+    }
+  });
+
+  // Link to the Stripe Customer Portal for managing payment methods, plan changes and cancellation
+  app.post("/api/subscription/portal", isAuthenticated, async (req: AuthRequest, res) => {
+    const stripe = getStripeClient(req.tenant);
+    if (!stripe) {
+      return res.status(503).json({ error: "Payment processing not configured" });
+    }
+
+    try {
+      const user = req.currentUser!;
+      if (!user.stripeCustomerId) {
+        return res.status(400).json({ error: "No billing account found. Subscribe to a plan first." });
+      }
+
+      const portalSession = await stripe.billingPortal.sessions.create({
+        customer: user.stripeCustomerId,
+        return_url: `${getAppUrl(req.tenant)}/settings`,
+      });
+
+      res.json({ success: true, url: portalSession.url });
+    } catch (error: any) {
+      console.error('Billing portal error:', error);
+      res.status(500).json({ error: "Failed to open billing portal" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,141 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+// Envelope encryption for tenant secrets stored in the database.
+// Each value is encrypted with its own random data key; the data key is wrapped with the
+// master key from TENANT_SECRETS_KEY. Rotating the master key only re-wraps data keys.
+//
+// Stored format: enc1:<masterKeyId>:<wrapped data key>:<encrypted value>
+// where each encrypted part is <iv>.<auth tag>.<ciphertext> in base64url.
+
+const FORMAT_PREFIX = "enc1";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+
+// Tenant columns that hold credentials and are encrypted at rest
+export const TENANT_SECRET_FIELDS = ["stripeSecretKey", "stripeWebhookSecret", "openaiApiKey", "n8nApiKey", "highlevelWebhookSecret", "n8nCallbackSecret"] as const;
+export type TenantSecretField = typeof TENANT_SECRET_FIELDS[number];
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function toMasterKey(secret: string): MasterKey {
+  const key = createHash("sha256").update(secret).digest();
+  const id = createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { id, key };
+}
+
+function loadMasterKeys(): { current: MasterKey | null; all: MasterKey[] } {
+  let currentSecret = process.env.TENANT_SECRETS_KEY;
+  if (!currentSecret && process.env.NODE_ENV !== "production") {
+    console.log('Warning: TENANT_SECRETS_KEY not configured - using development key');
+    currentSecret = 'xauti-dev-tenant-secrets-key';
+  }
+
+  // Keys that were current before a rotation, still needed to read older values
+  const previous = (process.env.TENANT_SECRETS_PREVIOUS_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(toMasterKey);
+
+  const current = currentSecret ? toMasterKey(currentSecret) : null;
+  return { current, all: current ? [current, ...previous] : previous };
+}
+
+const masterKeys = loadMasterKeys();
+
+function currentMasterKey(): MasterKey {
+  if (!masterKeys.current) {
+    throw new Error("TENANT_SECRETS_KEY must be configured to store tenant secrets");
+  }
+  return masterKeys.current;
+}
+
+function findMasterKey(id: string): MasterKey {
+  const masterKey = masterKeys.all.find(candidate => candidate.id === id);
+  if (!masterKey) {
+    throw new Error(`No master key available for tenant secret (key id ${id})`);
+  }
+  return masterKey;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString("base64url")).join(".");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const [iv, tag, ciphertext] = sealed.split(".").map(part => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(`${FORMAT_PREFIX}:`);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const masterKey = currentMasterKey();
+  const dataKey = randomBytes(32);
+  const wrappedKey = seal(masterKey.key, dataKey);
+  const encryptedValue = seal(dataKey, Buffer.from(plaintext, "utf-8"));
+  return [FORMAT_PREFIX, masterKey.id, wrappedKey, encryptedValue].join(":");
+}
+
+// Values written before encryption was introduced are returned unchanged
+export function decryptSecret(stored: string): string;
+export function decryptSecret(stored: string | null): string | null;
+export function decryptSecret(stored: string | null): string | null {
+  if (!stored || !isEncryptedSecret(stored)) return stored;
+
+  const [, keyId, wrappedKey, encryptedValue] = stored.split(":");
+  const dataKey = open(findMasterKey(keyId).key, wrappedKey);
+  return open(dataKey, encryptedValue).toString("utf-8");
+}
+
+// Re-wrap the data key with the current master key (encrypting legacy plaintext values).
+// Returns null when the value is already wrapped with the current key.
+export function rewrapSecret(stored: string): string | null {
+  if (!isEncryptedSecret(stored)) return encryptSecret(stored);
+
+  const [, keyId, wrappedKey, encryptedValue] = stored.split(":");
+  const masterKey = currentMasterKey();
+  if (keyId === masterKey.id) return null;
+
+  const dataKey = open(findMasterKey(keyId).key, wrappedKey);
+  return [FORMAT_PREFIX, masterKey.id, seal(masterKey.key, dataKey), encryptedValue].join(":");
+}
+
+// Show only the key type and last four characters, e.g. sk_live_…abcd
+export function maskSecret(stored: string | null): string | null {
+  if (!stored) return null;
+
+  let plaintext: string;
+  try {
+    plaintext = decryptSecret(stored);
+  } catch (error) {
+    console.error('Unable to decrypt tenant secret for masking:', error);
+    return "…";
+  }
+
+  if (plaintext.length <= 8) return "…";
+  const prefix = plaintext.match(/^[A-Za-z]+[_-](?:(?:live|test|proj)[_-])?/)?.[0] || "";
+  return `${prefix}…${plaintext.slice(-4)}`;
+}
+
+// Encrypt any plaintext secret fields in a tenant insert or update before it is written
+export function encryptTenantSecrets<T extends Partial<Record<TenantSecretField, string | null | undefined>>>(values: T): T {
+  const encrypted = { ...values };
+  for (const field of TENANT_SECRET_FIELDS) {
+    const value = encrypted[field];
+    if (typeof value === "string" && value && !isEncryptedSecret(value)) {
+      (encrypted as Record<TenantSecretField, string>)[field] = encryptSecret(value);
+    }
+  }
+  return encrypted;
+}
@@ -1,6 +1,201 @@
-import { users, contentRequests, generationPurchases, tenants, type User, type InsertUser, type ContentRequest, type InsertContentRequest, type GenerationPurchase, type InsertGenerationPurchase, type Tenant, type InsertTenant } from "@shared/schema";
+import { users, contentRequests, generationPurchases, tenants, stripeEvents, creditLedger, tagRules, webhookDeliveries, generationJobs, contentItems, CREDIT_TYPES, type CreditType, type CreditPool, type LedgerActor, type CreditLedgerEntry, type InsertStripeEvent, type User, type InsertUser, type ContentRequest, type InsertContentRequest, type GenerationPurchase, type InsertGenerationPurchase, type Tenant, type InsertTenant, type TagRule, type TagRuleInput, type WebhookDelivery, type InsertWebhookDelivery, type GenerationJob, type InsertGenerationJob, type ContentItem, type ContentItemInput } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, sql, and } from "drizzle-orm";
+import { encryptTenantSecrets } from "./secrets";
+import { publishRequestUpdate } from "./progress";
+import { eq, desc, asc, sql, and, or, isNull, isNotNull, inArray, lt, lte, ilike, type AnyColumn } from "drizzle-orm";
+
+// Tenant a lookup is restricted to: a tenant id, or null for the main Xauti platform
+export type TenantScope = number | null;
+
+function inTenant(column: AnyColumn, tenantId: TenantScope) {
+  return tenantId === null ? isNull(column) : eq(column, tenantId);
+}
+
+// One monthly billing period later, clamped to the end of shorter months (Jan 31 -> Feb 28)
+function addBillingMonth(date: Date): Date {
+  const next = new Date(date);
+  next.setUTCMonth(next.getUTCMonth() + 1);
+  if (next.getUTCDate() !== date.getUTCDate()) next.setUTCDate(0);
+  return next;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Users columns holding the monthly allowance for each credit type
+const ALLOWANCE_COLUMNS = {
+  content: "generationsLimit",
+  script: "scriptGenerationsLimit",
+} as const satisfies Record<CreditType, keyof User>;
+const ALLOWANCE_FIELDS = [...Object.values(ALLOWANCE_COLUMNS), "currentPeriodStart"];
+
+export interface CreditBalance {
+  allowance: number; // granted for the current billing period
+  used: number; // spent from the allowance this period
+  remaining: number; // allowance left this period
+  purchased: number; // purchased balance, carried over between periods
+  available: number; // remaining + purchased
+}
+export type CreditBalances = Record<CreditType, CreditBalance>;
+
+export interface CreditConsumption {
+  reason: string;
+  contentRequestId?: number | null;
+  actorType?: LedgerActor;
+  actorUserId?: number | null;
+  // Take nothing when contentRequestId already holds a credit of this type (returns that consumption)
+  skipIfHeld?: boolean;
+}
+
+// Plan allowances a user's limit columns are reset to when their old balances are moved
+export type LegacyImportAllowances = Pick<User, "generationsLimit" | "scriptGenerationsLimit">;
+
+export interface CreditAdjustment {
+  reason: string;
+  actorType: LedgerActor;
+  actorUserId?: number | null;
+  purchaseId?: number | null;
+}
+
+// Credits of one type a content request holds: consumed and not yet refunded
+async function heldByRequest(tx: Transaction, contentRequestId: number, creditType: CreditType): Promise<number> {
+  const [{ held }] = await tx
+    .select({ held: sql<number>`coalesce(-sum(${creditLedger.amount}), 0)::int` })
+    .from(creditLedger)
+    .where(and(
+      eq(creditLedger.contentRequestId, contentRequestId),
+      eq(creditLedger.creditType, creditType),
+      or(eq(creditLedger.entryType, 'consumption'), eq(creditLedger.entryType, 'refund'))
+    ));
+  return held;
+}
+
+async function sumCredits(tx: Transaction, user: User): Promise<CreditBalances> {
+  // Allowance entries only count within the current period; purchased entries always count
+  const inCurrentPeriod = user.currentPeriodStart
+    ? and(eq(creditLedger.pool, 'allowance'), eq(creditLedger.periodStart, user.currentPeriodStart))
+    : sql`false`;
+
+  const rows = await tx
+    .select({
+      creditType: creditLedger.creditType,
+      pool: creditLedger.pool,
+      entryType: creditLedger.entryType,
+      total: sql<number>`coalesce(sum(${creditLedger.amount}), 0)::int`
+    })
+    .from(creditLedger)
+    .where(and(eq(creditLedger.userId, user.id), or(eq(creditLedger.pool, 'purchased'), inCurrentPeriod)))
+    .groupBy(creditLedger.creditType, creditLedger.pool, creditLedger.entryType);
+
+  const balances = {} as CreditBalances;
+  for (const creditType of CREDIT_TYPES) {
+    const ofType = rows.filter(row => row.creditType === creditType);
+    const total = (match: (row: typeof rows[number]) => boolean) =>
+      ofType.filter(match).reduce((sum, row) => sum + row.total, 0);
+
+    const allowance = total(row => row.pool === 'allowance' && row.entryType === 'grant');
+    const allowanceNet = total(row => row.pool === 'allowance');
+    const remaining = Math.max(0, allowanceNet);
+    const purchased = Math.max(0, total(row => row.pool === 'purchased'));
+    balances[creditType] = {
+      allowance,
+      used: Math.max(0, allowance - allowanceNet),
+      remaining,
+      purchased,
+      available: remaining + purchased
+    };
+  }
+  return balances;
+}
+
+// Bring the current period's grants in line with the user's allowance: the full allowance at
+// the start of a period, or the difference when the plan changes mid-period
+async function reconcileAllowanceGrants(tx: Transaction, user: User): Promise<void> {
+  if (!user.currentPeriodStart) return;
+
+  for (const creditType of CREDIT_TYPES) {
+    const [{ granted }] = await tx
+      .select({ granted: sql<number>`coalesce(sum(${creditLedger.amount}), 0)::int` })
+      .from(creditLedger)
+      .where(and(
+        eq(creditLedger.userId, user.id),
+        eq(creditLedger.creditType, creditType),
+        eq(creditLedger.pool, 'allowance'),
+        eq(creditLedger.entryType, 'grant'),
+        eq(creditLedger.periodStart, user.currentPeriodStart)
+      ));
+
+    const target = user[ALLOWANCE_COLUMNS[creditType]] || 0;
+    if (target === granted) continue;
+
+    const plan = user.subscriptionTier || 'free';
+    await tx.insert(creditLedger).values({
+      tenantId: user.tenantId,
+      userId: user.id,
+      creditType,
+      pool: 'allowance',
+      entryType: 'grant',
+      amount: target - granted,
+      periodStart: user.currentPeriodStart,
+      reason: granted === 0 ? `Monthly allowance (${plan} plan)` : `Allowance changed (${plan} plan)`,
+      actorType: 'system'
+    });
+  }
+}
+
+// Roll the user (already locked by the caller) into the billing period containing now
+async function rollPeriodIfEnded(tx: Transaction, user: User): Promise<User> {
+  const now = new Date();
+  if (user.currentPeriodEnd && user.currentPeriodEnd > now) return user;
+
+  let periodStart = user.currentPeriodEnd ?? now;
+  let periodEnd = addBillingMonth(periodStart);
+  while (periodEnd <= now) {
+    periodStart = periodEnd;
+    periodEnd = addBillingMonth(periodStart);
+  }
+
+  const [updatedUser] = await tx
+    .update(users)
+    .set({ currentPeriodStart: periodStart, currentPeriodEnd: periodEnd })
+    .where(eq(users.id, user.id))
+    .returning();
+  await reconcileAllowanceGrants(tx, updatedUser);
+  return updatedUser;
+}
+
+// A Stripe payment to credit exactly once
+export interface StripeCredit {
+  event: InsertStripeEvent;
+  purchase: InsertGenerationPurchase;
+  generationType: 'content' | 'script';
+}
+
+// A (possibly partial) Stripe refund of a credited purchase
+export interface StripeRefund {
+  event: InsertStripeEvent;
+  tenantId: TenantScope;
+  paymentIntentId: string;
+  amountRefunded: number; // in cents, total refunded on the charge so far
+}
+
+export interface WebhookDeliveryFilter {
+  source?: string;
+  status?: string;
+  tenantId?: TenantScope; // omitted = all tenants
+  limit?: number;
+}
+
+export interface GenerationJobFilter {
+  status?: string;
+  type?: string;
+  contentRequestId?: number;
+  limit?: number;
+}
+
+export interface ContentItemFilter {
+  platform?: string;
+  search?: string; // matched against the caption, hook and hashtags
+}
 
 export interface IStorage {
   // Tenant management
@@ -11,28 +206,89 @@ export interface IStorage {
   getTenantByDomain(domain: string): Promise<Tenant | undefined>;
   getTenantBySubdomain(subdomain: string): Promise<Tenant | undefined>;
   updateTenant(id: number, updates: Partial<Tenant>): Promise<Tenant>;
+  getTenantByOwnerId(ownerId: number): Promise<Tenant | undefined>;
   
-  // User management (tenant-aware)
-  getUser(id: number, tenantId?: number): Promise<User | undefined>;
-  getUserByEmail(email: string, tenantId?: number): Promise<User | undefined>;
+  // User management (tenant-aware). Omitting the scope on getUser is for internal
+  // lookups only (webhooks, token checks) - request handlers always pass the tenant.
+  getUser(id: number, tenantId?: TenantScope): Promise<User | undefined>;
+  getUserByEmail(email: string, tenantId: TenantScope): Promise<User | undefined>;
+  getUserByStripeCustomerId(customerId: string, tenantId: TenantScope): Promise<User | undefined>;
+  getUsersByTenant(tenantId: number): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUserStreak(id: number, streak: number, lastDate: string): Promise<User>;
   updateUserSubscription(id: number, subscription: Partial<User>): Promise<User>;
   updateUserPassword(id: number, password: string): Promise<User>;
-  incrementUserGenerations(id: number): Promise<User>;
-  addGenerationsToUser(id: number, generations: number): Promise<User>;
+  refreshUsagePeriod(user: User): Promise<User>;
   checkUserCanGenerate(id: number): Promise<boolean>;
+
+  // Credit ledger (append-only; balances are derived from it)
+  getCreditBalances(user: User): Promise<CreditBalances>;
+  getCreditLedger(userId: number, tenantId: TenantScope): Promise<CreditLedgerEntry[]>;
+  getConsumptionByTenant(tenantId: number): Promise<Map<number, number>>;
+  // Returns undefined when the user has no credits of that type left
+  consumeCredit(userId: number, creditType: CreditType, consumption: CreditConsumption): Promise<CreditLedgerEntry | undefined>;
+  adjustCredits(userId: number, creditType: CreditType, amount: number, adjustment: CreditAdjustment): Promise<CreditLedgerEntry>;
+  // Give back a credit consumed for a content request whose generation failed. Safe to call
+  // more than once: only credits not yet returned are released.
+  releaseCredit(contentRequestId: number, creditType: CreditType, reason: string): Promise<CreditLedgerEntry | undefined>;
+  // One-time move of the pre-ledger balance columns into the ledger (npm run credits:backfill).
+  // importLegacyCredits sets the user's allowances to their plan's and returns false when the
+  // user's balances were already moved.
+  getUserIdsWithLegacyCredits(): Promise<number[]>;
+  importLegacyCredits(userId: number, allowances: LegacyImportAllowances, legacyTierLimit: number): Promise<boolean>;
   
   // Content requests (tenant-aware)
   createContentRequest(request: InsertContentRequest): Promise<ContentRequest>;
-  getContentRequest(id: number, tenantId?: number): Promise<ContentRequest | undefined>;
+  getContentRequest(id: number, tenantId: TenantScope): Promise<ContentRequest | undefined>;
   updateContentRequest(id: number, updates: Partial<ContentRequest>): Promise<ContentRequest>;
-  getContentRequestsByUserId(userId: number, tenantId?: number): Promise<ContentRequest[]>;
+  // Marks the request's scripts as processing unless they already are; undefined when another run holds it
+  claimScriptGeneration(id: number, updates: Partial<ContentRequest>): Promise<ContentRequest | undefined>;
+  getContentRequestsByUserId(userId: number, tenantId: TenantScope): Promise<ContentRequest[]>;
   deleteContentRequest(id: number, userId: number): Promise<void>;
+  getContentRequestsByTenant(tenantId: number): Promise<ContentRequest[]>;
+  deleteTenantContentRequest(id: number, tenantId: number): Promise<void>;
+
+  // Content items: the posts of a request's calendar, ordered by day
+  getContentItems(contentRequestId: number, filter?: ContentItemFilter): Promise<ContentItem[]>;
+  getContentItem(id: number, contentRequestId: number): Promise<ContentItem | undefined>;
+  createContentItem(contentRequest: ContentRequest, item: ContentItemInput): Promise<ContentItem>;
+  updateContentItem(id: number, contentRequestId: number, updates: Partial<ContentItemInput>): Promise<ContentItem | undefined>;
+  deleteContentItem(id: number, contentRequestId: number): Promise<boolean>;
+  // Swap all of a request's posts in one transaction (a new or replayed result)
+  replaceContentItems(contentRequest: ContentRequest, items: ContentItemInput[]): Promise<ContentItem[]>;
   
   // Generation purchases (tenant-aware)
   createGenerationPurchase(purchase: InsertGenerationPurchase): Promise<GenerationPurchase>;
-  getGenerationPurchasesByUserId(userId: number, tenantId?: number): Promise<GenerationPurchase[]>;
+  getGenerationPurchasesByUserId(userId: number, tenantId: TenantScope): Promise<GenerationPurchase[]>;
+  getGenerationPurchasesByTenant(tenantId: number): Promise<GenerationPurchase[]>;
+
+  // Records the Stripe event and credits the purchase in one transaction.
+  // Returns undefined when the event or payment intent was already applied.
+  applyStripeCredit(credit: StripeCredit): Promise<User | undefined>;
+
+  // Records the refund event, removes the refunded share of the purchased credits and marks
+  // the purchase refunded. Returns undefined for replayed events or unknown payments; events
+  // for unknown payments aren't recorded, so a later retry can still apply them.
+  applyStripeRefund(refund: StripeRefund): Promise<GenerationPurchase | undefined>;
+
+  // HighLevel tag rules (an empty list means the scope uses the default rules)
+  getTagRules(tenantId: TenantScope): Promise<TagRule[]>;
+  replaceTagRules(tenantId: TenantScope, rules: TagRuleInput[]): Promise<TagRule[]>;
+
+  // Inbound webhook delivery log
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  updateWebhookDelivery(id: number, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery>;
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(filter: WebhookDeliveryFilter): Promise<WebhookDelivery[]>;
+
+  // Generation job queue
+  createGenerationJob(job: InsertGenerationJob): Promise<GenerationJob>;
+  claimGenerationJob(leaseMs: number): Promise<GenerationJob | undefined>;
+  updateGenerationJob(id: number, updates: Partial<GenerationJob>, expectedStatus?: string): Promise<GenerationJob | undefined>;
+  getGenerationJob(id: number): Promise<GenerationJob | undefined>;
+  getGenerationJobs(filter: GenerationJobFilter): Promise<GenerationJob[]>;
+  countGenerationJobs(): Promise<Record<string, number>>;
+  getExpiredGenerationJobs(): Promise<GenerationJob[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -40,7 +296,7 @@ export class DatabaseStorage implements IStorage {
   async createTenant(tenant: InsertTenant): Promise<Tenant> {
     const [newTenant] = await db
       .insert(tenants)
-      .values(tenant)
+      .values(encryptTenantSecrets(tenant))
       .returning();
     return newTenant;
   }
@@ -56,6 +312,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteTenant(id: number): Promise<void> {
+    await db.delete(tagRules).where(eq(tagRules.tenantId, id));
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.tenantId, id));
+    await db.delete(generationJobs).where(eq(generationJobs.tenantId, id));
+    await db.delete(contentItems).where(eq(contentItems.tenantId, id));
     await db.delete(tenants).where(eq(tenants.id, id));
   }
 
@@ -72,35 +332,47 @@ export class DatabaseStorage implements IStorage {
   async updateTenant(id: number, updates: Partial<Tenant>): Promise<Tenant> {
     const [tenant] = await db
       .update(tenants)
-      .set({ ...updates, updatedAt: new Date() })
+      .set({ ...encryptTenantSecrets(updates), updatedAt: new Date() })
       .where(eq(tenants.id, id))
       .returning();
     return tenant;
   }
 
+  async getTenantByOwnerId(ownerId: number): Promise<Tenant | undefined> {
+    const [tenant] = await db.select().from(tenants).where(eq(tenants.ownerId, ownerId));
+    return tenant || undefined;
+  }
+
   // User management methods (tenant-aware)
-  async getUser(id: number, tenantId?: number): Promise<User | undefined> {
-    let query = db.select().from(users).where(eq(users.id, id));
-    
-    if (tenantId) {
-      query = db.select().from(users).where(and(eq(users.id, id), eq(users.tenantId, tenantId)));
-    }
-    
-    const [user] = await query;
+  async getUser(id: number, tenantId?: TenantScope): Promise<User | undefined> {
+    const condition = tenantId === undefined
+      ? eq(users.id, id)
+      : and(eq(users.id, id), inTenant(users.tenantId, tenantId));
+
+    const [user] = await db.select().from(users).where(condition);
     return user || undefined;
   }
 
-  async getUserByEmail(email: string, tenantId?: number): Promise<User | undefined> {
-    let query = db.select().from(users).where(eq(users.email, email));
-    
-    if (tenantId) {
-      query = db.select().from(users).where(and(eq(users.email, email), eq(users.tenantId, tenantId)));
-    }
-    
-    const [user] = await query;
+  async getUserByEmail(email: string, tenantId: TenantScope): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.email, email), inTenant(users.tenantId, tenantId)));
+    return user || undefined;
+  }
+
+  async getUserByStripeCustomerId(customerId: string, tenantId: TenantScope): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(and(eq(users.stripeCustomerId, customerId), inTenant(users.tenantId, tenantId)));
     return user || undefined;
   }
 
+  async getUsersByTenant(tenantId: number): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.tenantId, tenantId)).orderBy(desc(users.createdAt));
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -129,14 +401,11 @@ export class DatabaseStorage implements IStorage {
     return contentRequest;
   }
 
-  async getContentRequest(id: number, tenantId?: number): Promise<ContentRequest | undefined> {
-    let query = db.select().from(contentRequests).where(eq(contentRequests.id, id));
-    
-    if (tenantId) {
-      query = db.select().from(contentRequests).where(and(eq(contentRequests.id, id), eq(contentRequests.tenantId, tenantId)));
-    }
-    
-    const [request] = await query;
+  async getContentRequest(id: number, tenantId: TenantScope): Promise<ContentRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(contentRequests)
+      .where(and(eq(contentRequests.id, id), inTenant(contentRequests.tenantId, tenantId)));
     return request || undefined;
   }
 
@@ -146,33 +415,138 @@ export class DatabaseStorage implements IStorage {
       .set(updates)
       .where(eq(contentRequests.id, id))
       .returning();
+    if (request) publishRequestUpdate(request);
     return request;
   }
 
-  async getContentRequestsByUserId(userId: number, tenantId?: number): Promise<ContentRequest[]> {
-    let query = db.select().from(contentRequests).where(eq(contentRequests.userId, userId));
-    
-    if (tenantId) {
-      query = db.select().from(contentRequests).where(and(eq(contentRequests.userId, userId), eq(contentRequests.tenantId, tenantId)));
-    }
-    
-    return await query;
+  async claimScriptGeneration(id: number, updates: Partial<ContentRequest>): Promise<ContentRequest | undefined> {
+    const [request] = await db
+      .update(contentRequests)
+      .set({ ...updates, scriptStatus: "processing" })
+      .where(and(eq(contentRequests.id, id), sql`${contentRequests.scriptStatus} is distinct from 'processing'`))
+      .returning();
+    if (request) publishRequestUpdate(request);
+    return request;
+  }
+
+  async getContentRequestsByUserId(userId: number, tenantId: TenantScope): Promise<ContentRequest[]> {
+    return await db
+      .select()
+      .from(contentRequests)
+      .where(and(eq(contentRequests.userId, userId), inTenant(contentRequests.tenantId, tenantId)));
   }
 
   async deleteContentRequest(id: number, userId: number): Promise<void> {
     // Ensure only the owner can delete their content request
-    await db
-      .delete(contentRequests)
-      .where(and(eq(contentRequests.id, id), eq(contentRequests.userId, userId)));
+    await db.transaction(async (tx) => {
+      const [request] = await tx
+        .select({ id: contentRequests.id })
+        .from(contentRequests)
+        .where(and(eq(contentRequests.id, id), eq(contentRequests.userId, userId)));
+      if (!request) return;
+
+      // Posts first: they reference the request
+      await tx.delete(contentItems).where(eq(contentItems.contentRequestId, request.id));
+      await tx.delete(contentRequests).where(eq(contentRequests.id, request.id));
+    });
   }
 
-  async updateUserSubscription(id: number, subscription: Partial<User>): Promise<User> {
-    const [user] = await db
-      .update(users)
-      .set(subscription)
-      .where(eq(users.id, id))
+  async getContentRequestsByTenant(tenantId: number): Promise<ContentRequest[]> {
+    return await db
+      .select()
+      .from(contentRequests)
+      .where(eq(contentRequests.tenantId, tenantId))
+      .orderBy(desc(contentRequests.createdAt));
+  }
+
+  async deleteTenantContentRequest(id: number, tenantId: number): Promise<void> {
+    // Tenant owners can only remove requests that belong to their tenant
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(contentItems)
+        .where(and(eq(contentItems.contentRequestId, id), eq(contentItems.tenantId, tenantId)));
+      await tx
+        .delete(contentRequests)
+        .where(and(eq(contentRequests.id, id), eq(contentRequests.tenantId, tenantId)));
+    });
+  }
+
+  async getContentItems(contentRequestId: number, filter: ContentItemFilter = {}): Promise<ContentItem[]> {
+    const conditions = [eq(contentItems.contentRequestId, contentRequestId)];
+    if (filter.platform) conditions.push(ilike(contentItems.platform, filter.platform));
+    if (filter.search) {
+      const pattern = `%${filter.search.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+      conditions.push(or(
+        ilike(contentItems.caption, pattern),
+        ilike(contentItems.hook, pattern),
+        sql`array_to_string(${contentItems.hashtags}, ' ') ilike ${pattern}`
+      )!);
+    }
+    return await db
+      .select()
+      .from(contentItems)
+      .where(and(...conditions))
+      .orderBy(asc(contentItems.day), asc(contentItems.id));
+  }
+
+  async getContentItem(id: number, contentRequestId: number): Promise<ContentItem | undefined> {
+    const [item] = await db
+      .select()
+      .from(contentItems)
+      .where(and(eq(contentItems.id, id), eq(contentItems.contentRequestId, contentRequestId)));
+    return item || undefined;
+  }
+
+  async createContentItem(contentRequest: ContentRequest, item: ContentItemInput): Promise<ContentItem> {
+    const [created] = await db
+      .insert(contentItems)
+      .values({ ...item, tenantId: contentRequest.tenantId, contentRequestId: contentRequest.id })
       .returning();
-    return user;
+    return created;
+  }
+
+  async updateContentItem(id: number, contentRequestId: number, updates: Partial<ContentItemInput>): Promise<ContentItem | undefined> {
+    const [item] = await db
+      .update(contentItems)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(contentItems.id, id), eq(contentItems.contentRequestId, contentRequestId)))
+      .returning();
+    return item || undefined;
+  }
+
+  async deleteContentItem(id: number, contentRequestId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(contentItems)
+      .where(and(eq(contentItems.id, id), eq(contentItems.contentRequestId, contentRequestId)))
+      .returning({ id: contentItems.id });
+    return deleted.length > 0;
+  }
+
+  async replaceContentItems(contentRequest: ContentRequest, items: ContentItemInput[]): Promise<ContentItem[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(contentItems).where(eq(contentItems.contentRequestId, contentRequest.id));
+      if (items.length === 0) return [];
+      return await tx
+        .insert(contentItems)
+        .values(items.map(item => ({ ...item, tenantId: contentRequest.tenantId, contentRequestId: contentRequest.id })))
+        .returning();
+    });
+  }
+
+  // Updates that change the user's allowance or billing period top up (or claw back)
+  // the period's allowance grant in the same transaction
+  async updateUserSubscription(id: number, subscription: Partial<User>): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .update(users)
+        .set(subscription)
+        .where(eq(users.id, id))
+        .returning();
+      if (user && ALLOWANCE_FIELDS.some(field => field in subscription)) {
+        await reconcileAllowanceGrants(tx, user);
+      }
+      return user;
+    });
   }
 
   async updateUserPassword(id: number, password: string): Promise<User> {
@@ -184,52 +558,239 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async incrementUserGenerations(id: number): Promise<User> {
-    const currentUser = await this.getUser(id);
-    if (!currentUser) throw new Error('User not found');
-    
-    const [user] = await db
-      .update(users)
-      .set({ generationsUsed: (currentUser.generationsUsed || 0) + 1 })
-      .where(eq(users.id, id))
-      .returning();
-    return user;
+  // Start a new billing period once the current one has ended. Stripe subscribers normally
+  // roll over from their subscription webhook (which uses Stripe's own period dates); this
+  // covers tag-based plans and webhooks that arrive late.
+  async refreshUsagePeriod(user: User): Promise<User> {
+    if (user.currentPeriodEnd && user.currentPeriodEnd > new Date()) return user;
+
+    return await db.transaction(async (tx) => {
+      const [locked] = await tx.select().from(users).where(eq(users.id, user.id)).for("update");
+      if (!locked) throw new Error('User not found');
+      return await rollPeriodIfEnded(tx, locked);
+    });
   }
 
-  async addGenerationsToUser(id: number, generations: number, type: 'content' | 'script' = 'content'): Promise<User> {
-    const currentUser = await this.getUser(id);
-    if (!currentUser) throw new Error('User not found');
-    
-    const updateFields = type === 'script' 
-      ? { scriptGenerationsLimit: (currentUser.scriptGenerationsLimit || 0) + generations }
-      : { generationsLimit: (currentUser.generationsLimit || 0) + generations };
-    
-    const [user] = await db
-      .update(users)
-      .set(updateFields)
-      .where(eq(users.id, id))
+  async getCreditBalances(user: User): Promise<CreditBalances> {
+    return await db.transaction(async (tx) => sumCredits(tx, user));
+  }
+
+  async getCreditLedger(userId: number, tenantId: TenantScope): Promise<CreditLedgerEntry[]> {
+    return await db
+      .select()
+      .from(creditLedger)
+      .where(and(eq(creditLedger.userId, userId), inTenant(creditLedger.tenantId, tenantId)))
+      .orderBy(desc(creditLedger.createdAt), desc(creditLedger.id));
+  }
+
+  async getConsumptionByTenant(tenantId: number): Promise<Map<number, number>> {
+    const rows = await db
+      .select({
+        userId: creditLedger.userId,
+        consumed: sql<number>`coalesce(-sum(${creditLedger.amount}), 0)::int`
+      })
+      .from(creditLedger)
+      .where(and(
+        eq(creditLedger.tenantId, tenantId),
+        eq(creditLedger.creditType, 'content'),
+        eq(creditLedger.entryType, 'consumption')
+      ))
+      .groupBy(creditLedger.userId);
+    return new Map(rows.map(row => [row.userId, row.consumed]));
+  }
+
+  // The balance check and the consumption entry happen under a lock on the user row,
+  // so concurrent requests can't spend the same credit twice
+  async consumeCredit(userId: number, creditType: CreditType, consumption: CreditConsumption): Promise<CreditLedgerEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      const [locked] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!locked) throw new Error('User not found');
+
+      if (consumption.skipIfHeld && consumption.contentRequestId && await heldByRequest(tx, consumption.contentRequestId, creditType) > 0) {
+        const [held] = await tx
+          .select()
+          .from(creditLedger)
+          .where(and(
+            eq(creditLedger.contentRequestId, consumption.contentRequestId),
+            eq(creditLedger.creditType, creditType),
+            eq(creditLedger.entryType, 'consumption')
+          ))
+          .orderBy(desc(creditLedger.id))
+          .limit(1);
+        return held;
+      }
+
+      const user = await rollPeriodIfEnded(tx, locked);
+      const balance = (await sumCredits(tx, user))[creditType];
+      if (balance.available <= 0) return undefined;
+
+      // Use the period allowance first, then purchased credits
+      const pool: CreditPool = balance.remaining > 0 ? 'allowance' : 'purchased';
+      const [entry] = await tx
+        .insert(creditLedger)
+        .values({
+          tenantId: user.tenantId,
+          userId: user.id,
+          creditType,
+          pool,
+          entryType: 'consumption',
+          amount: -1,
+          periodStart: pool === 'allowance' ? user.currentPeriodStart : null,
+          reason: consumption.reason,
+          actorType: consumption.actorType ?? 'user',
+          actorUserId: consumption.actorUserId ?? user.id,
+          contentRequestId: consumption.contentRequestId ?? null
+        })
+        .returning();
+      return entry;
+    });
+  }
+
+  // Manual corrections to a user's purchased balance; negative amounts remove credits
+  async adjustCredits(userId: number, creditType: CreditType, amount: number, adjustment: CreditAdjustment): Promise<CreditLedgerEntry> {
+    const user = await this.getUser(userId);
+    if (!user) throw new Error('User not found');
+
+    const [entry] = await db
+      .insert(creditLedger)
+      .values({
+        tenantId: user.tenantId,
+        userId,
+        creditType,
+        pool: 'purchased',
+        entryType: 'adjustment',
+        amount,
+        reason: adjustment.reason,
+        actorType: adjustment.actorType,
+        actorUserId: adjustment.actorUserId ?? null,
+        purchaseId: adjustment.purchaseId ?? null
+      })
       .returning();
-    return user;
+    return entry;
   }
 
-  async checkUserCanGenerate(id: number): Promise<boolean> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    if (!user) return false;
-
-    // Set tier limits based on subscription
-    const getTierLimits = (tier: string) => {
-      switch (tier) {
-        case 'basic': return 2;
-        case 'pro': return 10;
-        case 'unlimited': return Infinity;
-        default: return 0; // free tier
+  async releaseCredit(contentRequestId: number, creditType: CreditType, reason: string): Promise<CreditLedgerEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      const forRequest = and(
+        eq(creditLedger.contentRequestId, contentRequestId),
+        eq(creditLedger.creditType, creditType)
+      );
+
+      const [consumption] = await tx
+        .select()
+        .from(creditLedger)
+        .where(and(forRequest, eq(creditLedger.entryType, 'consumption')))
+        .orderBy(desc(creditLedger.id))
+        .limit(1);
+      if (!consumption) return undefined;
+
+      // Serialize with other credit movements for this user before checking what's outstanding
+      await tx.select({ id: users.id }).from(users).where(eq(users.id, consumption.userId)).for("update");
+
+      if (await heldByRequest(tx, contentRequestId, creditType) <= 0) return undefined;
+
+      const [entry] = await tx
+        .insert(creditLedger)
+        .values({
+          tenantId: consumption.tenantId,
+          userId: consumption.userId,
+          creditType,
+          pool: consumption.pool,
+          entryType: 'refund',
+          amount: 1,
+          periodStart: consumption.periodStart,
+          reason,
+          actorType: 'system',
+          contentRequestId
+        })
+        .returning();
+      return entry;
+    });
+  }
+
+  async getUserIdsWithLegacyCredits(): Promise<number[]> {
+    const rows = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(isNotNull(users.generationsUsed))
+      .orderBy(asc(users.id));
+    return rows.map(row => row.id);
+  }
+
+  // The old generationsLimit held the tier limit (legacyTierLimit) plus purchased top-ups, and
+  // scriptGenerationsLimit only top-ups; the top-ups join the purchased balance. Usage comes out
+  // of the new allowance first, then the purchased balance. The old columns are cleared in the
+  // same transaction.
+  async importLegacyCredits(userId: number, allowances: LegacyImportAllowances, legacyTierLimit: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [locked] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!locked || locked.generationsUsed === null) return false;
+
+      const legacy = {
+        content: {
+          used: locked.generationsUsed || 0,
+          purchased: (locked.purchasedGenerations || 0) + Math.max(0, (locked.generationsLimit || 0) - legacyTierLimit)
+        },
+        script: {
+          used: locked.scriptGenerationsUsed || 0,
+          purchased: (locked.purchasedScriptGenerations || 0) + (locked.scriptGenerationsLimit || 0)
+        },
+      } satisfies Record<CreditType, { used: number; purchased: number }>;
+
+      const [withAllowances] = await tx.update(users).set(allowances).where(eq(users.id, userId)).returning();
+      const user = await rollPeriodIfEnded(tx, withAllowances);
+      await reconcileAllowanceGrants(tx, user);
+
+      for (const creditType of CREDIT_TYPES) {
+        const { used, purchased } = legacy[creditType];
+        const fromAllowance = Math.min(used, user[ALLOWANCE_COLUMNS[creditType]] || 0);
+        const fromPurchased = Math.min(used - fromAllowance, purchased);
+        const entry = { tenantId: user.tenantId, userId: user.id, creditType, actorType: 'system' as const };
+        if (purchased > 0) {
+          await tx.insert(creditLedger).values({
+            ...entry,
+            pool: 'purchased',
+            entryType: 'adjustment',
+            amount: purchased,
+            reason: 'Purchased balance carried over from before the credit ledger'
+          });
+        }
+        if (fromAllowance > 0) {
+          await tx.insert(creditLedger).values({
+            ...entry,
+            pool: 'allowance',
+            entryType: 'consumption',
+            amount: -fromAllowance,
+            periodStart: user.currentPeriodStart,
+            reason: 'Usage from before the credit ledger'
+          });
+        }
+        if (fromPurchased > 0) {
+          await tx.insert(creditLedger).values({
+            ...entry,
+            pool: 'purchased',
+            entryType: 'consumption',
+            amount: -fromPurchased,
+            reason: 'Usage from before the credit ledger, beyond the allowance'
+          });
+        }
       }
-    };
 
-    const tierLimit = getTierLimits(user.subscriptionTier || 'free');
-    const totalLimit = tierLimit === Infinity ? Infinity : tierLimit + (user.generationsLimit || 0);
-    
-    return (user.generationsUsed || 0) < totalLimit;
+      await tx
+        .update(users)
+        .set({ generationsUsed: null, scriptGenerationsUsed: null, purchasedGenerations: null, purchasedScriptGenerations: null })
+        .where(eq(users.id, userId));
+      return true;
+    });
+  }
+
+  async checkUserCanGenerate(id: number): Promise<boolean> {
+    const currentUser = await this.getUser(id);
+    if (!currentUser) return false;
+
+    const user = await this.refreshUsagePeriod(currentUser);
+    const balances = await this.getCreditBalances(user);
+    return balances.content.available > 0;
   }
 
   async createGenerationPurchase(purchase: InsertGenerationPurchase): Promise<GenerationPurchase> {
@@ -240,14 +801,248 @@ export class DatabaseStorage implements IStorage {
     return generationPurchase;
   }
 
-  async getGenerationPurchasesByUserId(userId: number, tenantId?: number): Promise<GenerationPurchase[]> {
-    let query = db.select().from(generationPurchases).where(eq(generationPurchases.userId, userId));
-    
-    if (tenantId) {
-      query = db.select().from(generationPurchases).where(and(eq(generationPurchases.userId, userId), eq(generationPurchases.tenantId, tenantId)));
-    }
-    
-    return await query.orderBy(desc(generationPurchases.createdAt));
+  async getGenerationPurchasesByUserId(userId: number, tenantId: TenantScope): Promise<GenerationPurchase[]> {
+    return await db
+      .select()
+      .from(generationPurchases)
+      .where(and(eq(generationPurchases.userId, userId), inTenant(generationPurchases.tenantId, tenantId)))
+      .orderBy(desc(generationPurchases.createdAt));
+  }
+
+  async getGenerationPurchasesByTenant(tenantId: number): Promise<GenerationPurchase[]> {
+    return await db
+      .select()
+      .from(generationPurchases)
+      .where(eq(generationPurchases.tenantId, tenantId))
+      .orderBy(desc(generationPurchases.createdAt));
+  }
+
+  async applyStripeCredit(credit: StripeCredit): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [event] = await tx
+        .insert(stripeEvents)
+        .values(credit.event)
+        .onConflictDoNothing()
+        .returning();
+      if (!event) return undefined;
+
+      const [purchase] = await tx.insert(generationPurchases).values(credit.purchase).returning();
+
+      await tx.insert(creditLedger).values({
+        tenantId: purchase.tenantId,
+        userId: purchase.userId,
+        creditType: credit.generationType,
+        pool: 'purchased',
+        entryType: 'purchase',
+        amount: purchase.generationsAdded,
+        reason: `Purchased ${purchase.generationsAdded} ${credit.generationType} generation${purchase.generationsAdded === 1 ? '' : 's'}`,
+        actorType: 'stripe',
+        actorUserId: purchase.userId,
+        purchaseId: purchase.id
+      });
+
+      const [user] = await tx.select().from(users).where(eq(users.id, purchase.userId));
+      return user;
+    });
+  }
+
+  async applyStripeRefund(refund: StripeRefund): Promise<GenerationPurchase | undefined> {
+    return await db.transaction(async (tx) => {
+      // Looked up first so a refund for a purchase not recorded yet isn't marked as applied
+      const [purchase] = await tx
+        .select()
+        .from(generationPurchases)
+        .where(and(
+          eq(generationPurchases.stripePaymentIntentId, refund.paymentIntentId),
+          inTenant(generationPurchases.tenantId, refund.tenantId)
+        ))
+        .for("update");
+      if (!purchase) return undefined;
+
+      const [event] = await tx
+        .insert(stripeEvents)
+        .values(refund.event)
+        .onConflictDoNothing()
+        .returning();
+      if (!event) return undefined;
+
+      const fullyRefunded = refund.amountRefunded >= purchase.amountPaid;
+      const [credited] = await tx
+        .select()
+        .from(creditLedger)
+        .where(and(eq(creditLedger.purchaseId, purchase.id), eq(creditLedger.entryType, 'purchase')));
+
+      if (credited) {
+        // Remove the refunded share of the credits, less what earlier partial refunds removed
+        const refundedCredits = fullyRefunded
+          ? credited.amount
+          : Math.floor(credited.amount * refund.amountRefunded / purchase.amountPaid);
+        const [{ reversed }] = await tx
+          .select({ reversed: sql<number>`coalesce(-sum(${creditLedger.amount}), 0)::int` })
+          .from(creditLedger)
+          .where(and(eq(creditLedger.purchaseId, purchase.id), eq(creditLedger.entryType, 'refund')));
+
+        if (refundedCredits > reversed) {
+          await tx.insert(creditLedger).values({
+            tenantId: purchase.tenantId,
+            userId: purchase.userId,
+            creditType: credited.creditType,
+            pool: 'purchased',
+            entryType: 'refund',
+            amount: -(refundedCredits - reversed),
+            reason: `Refund of purchase #${purchase.id}`,
+            actorType: 'stripe',
+            purchaseId: purchase.id
+          });
+        }
+      }
+
+      const [updatedPurchase] = await tx
+        .update(generationPurchases)
+        .set({ paymentStatus: fullyRefunded ? 'refunded' : 'partially_refunded' })
+        .where(eq(generationPurchases.id, purchase.id))
+        .returning();
+      return updatedPurchase;
+    });
+  }
+
+  async getTagRules(tenantId: TenantScope): Promise<TagRule[]> {
+    return await db
+      .select()
+      .from(tagRules)
+      .where(inTenant(tagRules.tenantId, tenantId))
+      .orderBy(desc(tagRules.priority), tagRules.id);
+  }
+
+  async replaceTagRules(tenantId: TenantScope, rules: TagRuleInput[]): Promise<TagRule[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(tagRules).where(inTenant(tagRules.tenantId, tenantId));
+      if (rules.length === 0) return [];
+
+      const saved = await tx
+        .insert(tagRules)
+        .values(rules.map(rule => ({ ...rule, tenantId })))
+        .returning();
+      return saved.sort((a, b) => b.priority - a.priority || a.id - b.id);
+    });
+  }
+
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await db.insert(webhookDeliveries).values(delivery).returning();
+    return created;
+  }
+
+  async updateWebhookDelivery(id: number, updates: Partial<WebhookDelivery>): Promise<WebhookDelivery> {
+    const [updated] = await db
+      .update(webhookDeliveries)
+      .set(updates)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery || undefined;
+  }
+
+  async getWebhookDeliveries(filter: WebhookDeliveryFilter): Promise<WebhookDelivery[]> {
+    const conditions = [
+      filter.source ? eq(webhookDeliveries.source, filter.source) : undefined,
+      filter.status ? eq(webhookDeliveries.status, filter.status) : undefined,
+      filter.tenantId !== undefined ? inTenant(webhookDeliveries.tenantId, filter.tenantId) : undefined,
+    ];
+    return await db
+      .select()
+      .from(webhookDeliveries)
+      .where(and(...conditions))
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async createGenerationJob(job: InsertGenerationJob): Promise<GenerationJob> {
+    const [created] = await db.insert(generationJobs).values(job).returning();
+    return created;
+  }
+
+  // Take the next due job and lease it to this process. SKIP LOCKED lets several
+  // server instances poll the same table without claiming the same job.
+  async claimGenerationJob(leaseMs: number): Promise<GenerationJob | undefined> {
+    return await db.transaction(async (tx) => {
+      const [next] = await tx
+        .select()
+        .from(generationJobs)
+        .where(and(eq(generationJobs.status, "queued"), lte(generationJobs.runAt, new Date())))
+        .orderBy(asc(generationJobs.runAt))
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!next) return undefined;
+
+      const [claimed] = await tx
+        .update(generationJobs)
+        .set({
+          status: "running",
+          attempts: next.attempts + 1,
+          lockedUntil: new Date(Date.now() + leaseMs),
+          updatedAt: new Date()
+        })
+        .where(eq(generationJobs.id, next.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  // With expectedStatus the update only applies if the job is still in that status,
+  // so the worker and the sweeper can't both settle the same attempt
+  async updateGenerationJob(id: number, updates: Partial<GenerationJob>, expectedStatus?: string): Promise<GenerationJob | undefined> {
+    const [updated] = await db
+      .update(generationJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(
+        eq(generationJobs.id, id),
+        expectedStatus ? eq(generationJobs.status, expectedStatus) : undefined
+      ))
+      .returning();
+    return updated || undefined;
+  }
+
+  async getGenerationJob(id: number): Promise<GenerationJob | undefined> {
+    const [job] = await db.select().from(generationJobs).where(eq(generationJobs.id, id));
+    return job || undefined;
+  }
+
+  async getGenerationJobs(filter: GenerationJobFilter): Promise<GenerationJob[]> {
+    const conditions = [
+      filter.status ? eq(generationJobs.status, filter.status) : undefined,
+      filter.type ? eq(generationJobs.type, filter.type) : undefined,
+      filter.contentRequestId !== undefined ? eq(generationJobs.contentRequestId, filter.contentRequestId) : undefined,
+    ];
+    return await db
+      .select()
+      .from(generationJobs)
+      .where(and(...conditions))
+      .orderBy(desc(generationJobs.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async countGenerationJobs(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: generationJobs.status, count: sql<number>`count(*)::int` })
+      .from(generationJobs)
+      .groupBy(generationJobs.status);
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  // Running jobs whose lease ran out (the process died mid-attempt) and unfinished jobs past their deadline
+  async getExpiredGenerationJobs(): Promise<GenerationJob[]> {
+    const now = new Date();
+    return await db
+      .select()
+      .from(generationJobs)
+      .where(or(
+        and(eq(generationJobs.status, "running"), lt(generationJobs.lockedUntil, now)),
+        and(inArray(generationJobs.status, ["queued", "running", "waiting"]), lt(generationJobs.deadline, now))
+      ));
   }
 }
 
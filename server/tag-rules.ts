@@ -0,0 +1,100 @@
+import { WHITE_LABEL_TIER, isSafeTagRegex, type TagRuleInput } from "@shared/schema";
+import { storage, type TenantScope } from "./storage";
+
+// Used by any scope that hasn't saved rules of its own. Higher priority wins when tags
+// match rules for different tiers, so a user tagged for both Pro and Unlimited gets Unlimited.
+export const DEFAULT_TAG_RULES: TagRuleInput[] = [
+  { matchType: "exact", pattern: "XAUTI CRM BUSINESS IN A BOX", tier: "unlimited", priority: 300 },
+  { matchType: "exact", pattern: "XAUTI CRM UNOCK", tier: "unlimited", priority: 300 },
+  { matchType: "prefix", pattern: "xauti crm 99", tier: "unlimited", priority: 300 },
+  { matchType: "regex", pattern: "\\bbusiness in (a|the) box\\b", tier: "unlimited", priority: 300 },
+  { matchType: "regex", pattern: "\\$99\\b", tier: "unlimited", priority: 300 },
+  { matchType: "regex", pattern: "\\b99 plan\\b", tier: "unlimited", priority: 300 },
+  { matchType: "regex", pattern: "\\bunlimited\\b", tier: "unlimited", priority: 300 },
+  { matchType: "exact", pattern: "XAUTI 27 CONTENT TOOL", tier: "pro", priority: 200 },
+  { matchType: "regex", pattern: "\\$27\\b", tier: "pro", priority: 200 },
+  { matchType: "regex", pattern: "\\bcontent tool\\b", tier: "pro", priority: 200 },
+  { matchType: "regex", pattern: "^\\$3\\b", tier: "basic", priority: 100 },
+  { matchType: "regex", pattern: "\\b3 dollar\\b", tier: "basic", priority: 100 },
+  { matchType: "regex", pattern: "\\bno code tool automation\\b", tier: "basic", priority: 100 },
+  { matchType: "regex", pattern: "\\bbusiness in (a|the) box\\b", tier: WHITE_LABEL_TIER, priority: 0 },
+];
+
+export interface TagMatch {
+  tag: string;
+  rule: TagRuleInput;
+}
+
+export interface TagEvaluation {
+  tier: string; // "free" when no plan rule matched
+  hasPlanTag: boolean;
+  whiteLabelAccess: boolean;
+  matchedRule: TagMatch | null; // the rule that decided the tier
+  matches: TagMatch[];
+}
+
+const MAX_TAG_LENGTH = 200; // longer tags aren't tested against regex rules
+
+// Build the test for one rule, compiling regex patterns once per evaluation. Rules are checked
+// with isSafeTagRegex when saved; any stored before that check that fail it never match.
+function ruleMatcher(rule: TagRuleInput): (tag: string) => boolean {
+  const pattern = rule.pattern.trim().toLowerCase();
+  switch (rule.matchType) {
+    case "exact":
+      return tag => tag.trim().toLowerCase() === pattern;
+    case "prefix":
+      return tag => tag.trim().toLowerCase().startsWith(pattern);
+    case "regex": {
+      if (!isSafeTagRegex(rule.pattern)) {
+        console.log(`Skipping unsafe tag rule pattern: ${rule.pattern}`);
+        return () => false;
+      }
+      const regex = new RegExp(rule.pattern, "i");
+      return tag => tag.length <= MAX_TAG_LENGTH && regex.test(tag.trim());
+    }
+  }
+}
+
+// The rules a scope uses: its saved rules, or the defaults when it has none
+export async function getEffectiveTagRules(tenantId: TenantScope): Promise<{ rules: TagRuleInput[]; isDefault: boolean }> {
+  const saved = await storage.getTagRules(tenantId);
+  if (saved.length === 0) return { rules: DEFAULT_TAG_RULES, isDefault: true };
+  return {
+    rules: saved.map(({ matchType, pattern, tier, priority }) => ({ matchType: matchType as TagRuleInput["matchType"], pattern, tier, priority })),
+    isDefault: false
+  };
+}
+
+// Pick a plan tier for a contact's tags. The highest-priority matching rule wins; on a tie the
+// rule listed first wins. White label rules only grant white label access.
+export function evaluateTags(rules: TagRuleInput[], tags: unknown): TagEvaluation {
+  const tagList = (Array.isArray(tags) ? tags : tags ? [tags] : []).filter((tag): tag is string => typeof tag === "string");
+
+  const matches: TagMatch[] = [];
+  for (const rule of rules) {
+    const matchesTag = ruleMatcher(rule);
+    for (const tag of tagList) {
+      if (matchesTag(tag)) matches.push({ tag, rule });
+    }
+  }
+
+  const planMatches = matches.filter(match => match.rule.tier !== WHITE_LABEL_TIER);
+  const matchedRule = planMatches.reduce<TagMatch | null>(
+    (best, match) => !best || match.rule.priority > best.rule.priority ? match : best,
+    null
+  );
+
+  return {
+    tier: matchedRule?.rule.tier ?? "free",
+    hasPlanTag: !!matchedRule,
+    whiteLabelAccess: matches.some(match => match.rule.tier === WHITE_LABEL_TIER),
+    matchedRule,
+    matches
+  };
+}
+
+// Evaluate tags against the rules saved for a tenant (or the defaults)
+export async function resolveTierFromTags(tenantId: TenantScope, tags: unknown): Promise<TagEvaluation> {
+  const { rules } = await getEffectiveTagRules(tenantId);
+  return evaluateTags(rules, tags);
+}
@@ -0,0 +1,76 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+
+// HighLevel workflows and n8n callbacks authenticate with custom headers: either an HMAC-SHA256 of
+// the raw body ("X-Webhook-Signature: sha256=<hex>") or the shared secret itself ("X-Webhook-Secret"
+// or a bearer token)
+const SIGNATURE_HEADER = "x-webhook-signature";
+const SECRET_HEADER = "x-webhook-secret";
+
+// Headers that carry credentials; their values are never written to the webhook delivery log
+const REDACTED_HEADERS = [
+  "authorization",
+  "cookie",
+  "set-cookie",
+  "stripe-signature",
+  SIGNATURE_HEADER,
+  SECRET_HEADER,
+];
+
+// Headers as stored in the delivery log, with credentials replaced
+export function redactHeaders(headers: Record<string, string | string[] | undefined>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => [
+        name,
+        REDACTED_HEADERS.includes(name.toLowerCase()) ? "[redacted]" : Array.isArray(value) ? value.join(", ") : String(value)
+      ])
+  );
+}
+
+// What the delivery log keeps of a request that failed verification. Its sender is unknown, so
+// only the size is recorded - storing the body would let anyone fill the table.
+export function rejectedDeliveryContent(rawBody: Buffer | undefined) {
+  return { headers: {}, body: null, bodySize: rawBody?.length ?? 0 };
+}
+
+export type WebhookVerification =
+  | { verified: true; method: "hmac" | "secret" }
+  | { verified: false; error: string };
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function headerValue(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function verifyWebhookRequest(headers: IncomingHttpHeaders, rawBody: Buffer | undefined, secret: string | null): WebhookVerification {
+  if (!secret) {
+    return { verified: false, error: "No webhook secret configured" };
+  }
+
+  const signature = headerValue(headers, SIGNATURE_HEADER);
+  if (signature) {
+    const expected = createHmac("sha256", secret).update(rawBody || "").digest("hex");
+    return safeEqual(signature.replace(/^sha256=/, "").toLowerCase(), expected)
+      ? { verified: true, method: "hmac" }
+      : { verified: false, error: "Signature does not match" };
+  }
+
+  const authorization = headerValue(headers, "authorization");
+  const suppliedSecret = headerValue(headers, SECRET_HEADER)
+    || (authorization?.startsWith("Bearer ") ? authorization.slice("Bearer ".length) : undefined);
+  if (suppliedSecret) {
+    return safeEqual(suppliedSecret, secret)
+      ? { verified: true, method: "secret" }
+      : { verified: false, error: "Webhook secret does not match" };
+  }
+
+  return { verified: false, error: "Missing signature or webhook secret header" };
+}
@@ -1,8 +1,28 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, date, varchar, index, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
+// Session storage table for express-session (connect-pg-simple)
+export const sessions = pgTable(
+  "sessions",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: jsonb("sess").notNull(),
+    expire: timestamp("expire").notNull(),
+  },
+  (table) => [index("IDX_session_expire").on(table.expire)],
+);
+
+// How a tenant's AI and payment calls behave when the tenant has no key of its own:
+// platform_fallback = use the platform's account, tenant_only = the feature is unavailable
+export const CREDENTIAL_POLICIES = ["platform_fallback", "tenant_only"] as const;
+export type CredentialPolicy = typeof CREDENTIAL_POLICIES[number];
+
+// What writes a tenant's 30-day calendars: its n8n workflow or the built-in OpenAI generator
+export const CONTENT_GENERATORS = ["n8n", "native"] as const;
+export type ContentGenerator = typeof CONTENT_GENERATORS[number];
+
 export const tenants = pgTable("tenants", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
@@ -16,32 +36,88 @@ export const tenants = pgTable("tenants", {
   stripePublicKey: text("stripe_public_key"),
   stripeWebhookSecret: text("stripe_webhook_secret"),
   openaiApiKey: text("openai_api_key"),
+  highlevelWebhookSecret: text("highlevel_webhook_secret"), // signs or authenticates HighLevel webhooks
+  n8nCallbackSecret: text("n8n_callback_secret"), // signs or authenticates n8n completion callbacks
+  openaiPolicy: text("openai_policy").notNull().default("platform_fallback"), // see CREDENTIAL_POLICIES
+  stripePolicy: text("stripe_policy").notNull().default("tenant_only"), // payments never settle on the platform account by default
+  contentGenerator: text("content_generator").notNull().default("n8n"), // see CONTENT_GENERATORS
   isActive: boolean("is_active").notNull().default(true),
   plan: text("plan").notNull().default("white_label"), // white_label = $199
+  planCatalog: jsonb("plan_catalog"), // subscription plans sold to this tenant's users; null = platform defaults
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// platform_admin = Xauti staff, tenant_owner = white label client, member = end user
+export const USER_ROLES = ["platform_admin", "tenant_owner", "member"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// users.subscriptionStatus values; Stripe's subscription statuses are mapped onto these
+export const SUBSCRIPTION_STATUSES = ["active", "inactive", "canceled", "past_due"] as const;
+export type SubscriptionStatus = typeof SUBSCRIPTION_STATUSES[number];
+
+// Credit ledger vocabulary. Allowance credits are granted per billing period and only count
+// within it; purchased credits roll over until used or refunded.
+export const CREDIT_TYPES = ["content", "script"] as const;
+export type CreditType = typeof CREDIT_TYPES[number];
+export const CREDIT_POOLS = ["allowance", "purchased"] as const;
+export type CreditPool = typeof CREDIT_POOLS[number];
+export const LEDGER_ENTRY_TYPES = ["grant", "purchase", "consumption", "refund", "adjustment"] as const;
+export type LedgerEntryType = typeof LEDGER_ENTRY_TYPES[number];
+export const LEDGER_ACTORS = ["system", "user", "admin", "stripe"] as const;
+export type LedgerActor = typeof LEDGER_ACTORS[number];
+
+// How a HighLevel tag rule compares its pattern with a tag (all comparisons ignore case).
+// Rules targeting WHITE_LABEL_TIER flag white label access instead of choosing a plan.
+export const TAG_MATCH_TYPES = ["exact", "prefix", "regex"] as const;
+export type TagMatchType = typeof TAG_MATCH_TYPES[number];
+export const WHITE_LABEL_TIER = "white_label";
+
+// Inbound webhook delivery log vocabulary
+export const WEBHOOK_SOURCES = ["stripe", "highlevel", "n8n"] as const;
+export type WebhookSource = typeof WEBHOOK_SOURCES[number];
+// received = logged, not yet handled; rejected = failed verification; invalid = payload didn't parse
+export const WEBHOOK_DELIVERY_STATUSES = ["received", "processed", "rejected", "invalid", "failed"] as const;
+export type WebhookDeliveryStatus = typeof WEBHOOK_DELIVERY_STATUSES[number];
+
+// Generation job queue vocabulary. waiting = handed to an external workflow that will report back;
+// dead = out of attempts or past its deadline (dead-lettered)
+export const JOB_TYPES = ["content", "script"] as const;
+export type JobType = typeof JOB_TYPES[number];
+export const JOB_STATUSES = ["queued", "running", "waiting", "completed", "dead"] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   tenantId: integer("tenant_id").references(() => tenants.id),
   name: text("name").notNull(),
   email: text("email").notNull(),
-  password: text("password").default("password123"),
+  password: text("password"), // scrypt hash; null until the user sets a password
+  role: text("role").notNull().default("member"), // platform_admin, tenant_owner, member
   contentStreak: integer("content_streak").default(0),
   lastContentDate: date("last_content_date"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   subscriptionTier: text("subscription_tier").default("free"), // free, basic, pro, unlimited
-  generationsUsed: integer("generations_used").default(0),
+  // Monthly allowances for the tier; usage and balances are derived from credit_ledger
   generationsLimit: integer("generations_limit").default(0),
-  scriptGenerationsUsed: integer("script_generations_used").default(0),
   scriptGenerationsLimit: integer("script_generations_limit").default(0),
+  currentPeriodStart: timestamp("current_period_start"),
+  currentPeriodEnd: timestamp("current_period_end"),
+  // Balances from before credit_ledger. `npm run credits:backfill` moves them into the ledger and
+  // clears them (null = moved); drop these columns once every environment has run it.
+  generationsUsed: integer("generations_used"),
+  scriptGenerationsUsed: integer("script_generations_used"),
+  purchasedGenerations: integer("purchased_generations"),
+  purchasedScriptGenerations: integer("purchased_script_generations"),
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
-  subscriptionStatus: text("subscription_status").default("inactive"), // active, inactive, canceled, past_due
+  subscriptionStatus: text("subscription_status").default("inactive"), // see SUBSCRIPTION_STATUSES
   subscriptionEndDate: timestamp("subscription_end_date"),
   tags: text("tags").array().default([]) // For HighLevel integration
-});
+}, (table) => [
+  // Emails are unique per tenant; main platform users (null tenant) count as one tenant
+  unique("users_tenant_email_unique").on(table.tenantId, table.email).nullsNotDistinct(),
+]);
 
 export const contentRequests = pgTable("content_requests", {
   id: serial("id").primaryKey(),
@@ -53,13 +129,35 @@ export const contentRequests = pgTable("content_requests", {
   csvFilename: text("csv_filename"),
   csvBase64: text("csv_base64"),
   scriptContent: text("script_content"), // 30-second script for text-to-speech
+  scriptStatus: text("script_status"), // null until scripts are requested, then processing, completed, failed
   brandTone: text("brand_tone"), // User's brand tone/voice
   callToAction: text("call_to_action"), // Custom call-to-action
   errorMessage: text("error_message"),
+  progress: integer("progress"), // percent complete reported by the workflow
+  progressMessage: text("progress_message"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
 });
 
+// One post of a content calendar. Completed requests keep their posts here and the CSV download
+// is built from these rows; csvBase64 only holds results that aren't a post CSV (e.g. Drive links).
+export const contentItems = pgTable("content_items", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").references(() => tenants.id),
+  contentRequestId: integer("content_request_id").notNull().references(() => contentRequests.id),
+  day: integer("day").notNull(),
+  date: text("date"), // YYYY-MM-DD, when the source gave one
+  platform: text("platform"),
+  hook: text("hook"),
+  caption: text("caption").notNull(),
+  hashtags: text("hashtags").array().notNull().default([]),
+  callToAction: text("call_to_action"),
+  mediaNotes: text("media_notes"),
+  postingTime: text("posting_time"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [index("IDX_content_items_request_day").on(table.contentRequestId, table.day)]);
+
 export const generationPurchases = pgTable("generation_purchases", {
   id: serial("id").primaryKey(),
   tenantId: integer("tenant_id").references(() => tenants.id),
@@ -67,10 +165,93 @@ export const generationPurchases = pgTable("generation_purchases", {
   generationsAdded: integer("generations_added").notNull(),
   amountPaid: integer("amount_paid").notNull(), // in cents
   stripePaymentIntentId: text("stripe_payment_intent_id"),
-  paymentStatus: text("payment_status").default("pending"), // pending, completed, failed
+  paymentStatus: text("payment_status").default("pending"), // pending, completed, failed, refunded, partially_refunded
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Stripe payments that have already been credited. A replayed webhook event or a payment
+// intent credited by another path hits one of the unique keys and is skipped.
+export const stripeEvents = pgTable("stripe_events", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").references(() => tenants.id),
+  eventId: text("event_id").unique(), // null when credited via /api/purchase/confirm
+  paymentIntentId: text("payment_intent_id").unique(),
+  type: text("type").notNull(),
+  source: text("source").notNull(), // webhook, confirm
+  userId: integer("user_id"),
+  processedAt: timestamp("processed_at").defaultNow().notNull(),
+});
+
+// Append-only record of every credit movement; balances are sums over it.
+// Entries are never updated or deleted - corrections are new adjustment entries.
+export const creditLedger = pgTable("credit_ledger", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").references(() => tenants.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  creditType: text("credit_type").notNull(), // content, script
+  pool: text("pool").notNull(), // allowance, purchased
+  entryType: text("entry_type").notNull(), // grant, purchase, consumption, refund, adjustment
+  amount: integer("amount").notNull(), // positive adds credits, negative removes them
+  periodStart: timestamp("period_start"), // billing period an allowance entry counts towards
+  reason: text("reason").notNull(),
+  actorType: text("actor_type").notNull().default("system"), // system, user, admin, stripe
+  actorUserId: integer("actor_user_id"),
+  purchaseId: integer("purchase_id"),
+  contentRequestId: integer("content_request_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// HighLevel tag-to-plan rules; tenantId null = main platform. A scope without rules uses the defaults.
+export const tagRules = pgTable("tag_rules", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").references(() => tenants.id),
+  matchType: text("match_type").notNull(), // exact, prefix, regex
+  pattern: text("pattern").notNull(),
+  tier: text("tier").notNull(), // plan tier, or white_label
+  priority: integer("priority").notNull().default(0), // highest matching priority wins
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Content and script generation jobs, run by the in-process worker in server/jobs.ts
+export const generationJobs = pgTable("generation_jobs", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").references(() => tenants.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // see JOB_TYPES
+  contentRequestId: integer("content_request_id").notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").notNull().default("queued"), // see JOB_STATUSES
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").defaultNow().notNull(), // next attempt starts no earlier than this
+  lockedUntil: timestamp("locked_until"), // lease of the running attempt; expired leases are swept
+  deadline: timestamp("deadline").notNull(), // dead-lettered if not finished by then
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [index("IDX_generation_jobs_status_run_at").on(table.status, table.runAt)]);
+
+// Every inbound webhook call, kept so admins can inspect and replay deliveries.
+// Secret-bearing headers are redacted before they are stored.
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  tenantId: integer("tenant_id").references(() => tenants.id),
+  source: text("source").notNull(), // see WEBHOOK_SOURCES
+  headers: jsonb("headers").notNull(),
+  body: jsonb("body"),
+  bodySize: integer("body_size"), // rejected deliveries: bytes received; their headers and body aren't kept
+  verified: boolean("verified").notNull(),
+  verificationMethod: text("verification_method"), // stripe-signature, hmac, secret, workflow-response
+  status: text("status").notNull().default("received"), // see WEBHOOK_DELIVERY_STATUSES
+  outcome: text("outcome"), // what processing did, or why it failed
+  userId: integer("user_id").references(() => users.id),
+  contentRequestId: integer("content_request_id"), // n8n deliveries: the request they belong to
+  replayOf: integer("replay_of"), // delivery this one re-ran
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  processedAt: timestamp("processed_at"),
+}, (table) => [index("IDX_webhook_deliveries_created").on(table.createdAt)]);
+
 export const tenantsRelations = relations(tenants, ({ many, one }) => ({
   users: many(users),
   contentRequests: many(contentRequests),
@@ -112,7 +293,11 @@ export const generationPurchasesRelations = relations(generationPurchases, ({ on
   }),
 }));
 
-export const insertTenantSchema = createInsertSchema(tenants).omit({
+export const insertTenantSchema = createInsertSchema(tenants, {
+  openaiPolicy: z.enum(CREDENTIAL_POLICIES).optional(),
+  stripePolicy: z.enum(CREDENTIAL_POLICIES).optional(),
+  contentGenerator: z.enum(CONTENT_GENERATORS).optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -123,7 +308,6 @@ export const insertUserSchema = createInsertSchema(users).omit({
   contentStreak: true,
   lastContentDate: true,
   createdAt: true,
-  generationsUsed: true,
   subscriptionEndDate: true,
 });
 
@@ -135,12 +319,194 @@ export const insertContentRequestSchema = createInsertSchema(contentRequests).pi
   status: true,
 });
 
+// Fields a user may set on a post; the request and tenant come from the URL
+export const contentItemSchema = createInsertSchema(contentItems, {
+  day: z.number().int().min(1).max(366),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").nullable().optional(),
+  platform: z.string().trim().max(50).nullable().optional(),
+  hook: z.string().max(500).nullable().optional(),
+  caption: z.string().trim().min(1).max(5000),
+  hashtags: z.array(z.string().trim().min(1).max(100)).max(30).optional(),
+  callToAction: z.string().max(500).nullable().optional(),
+  mediaNotes: z.string().max(2000).nullable().optional(),
+  postingTime: z.string().max(20).nullable().optional(),
+}).omit({
+  id: true,
+  tenantId: true,
+  contentRequestId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+export const contentItemUpdateSchema = contentItemSchema.partial();
+
 export const insertGenerationPurchaseSchema = createInsertSchema(generationPurchases).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertStripeEventSchema = createInsertSchema(stripeEvents).omit({
+  id: true,
+  processedAt: true,
+});
+
+export const insertCreditLedgerSchema = createInsertSchema(creditLedger, {
+  creditType: z.enum(CREDIT_TYPES),
+  pool: z.enum(CREDIT_POOLS),
+  entryType: z.enum(LEDGER_ENTRY_TYPES),
+  actorType: z.enum(LEDGER_ACTORS).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGenerationJobSchema = createInsertSchema(generationJobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Regex tag rules run against every inbound webhook tag on the shared event loop, so patterns that
+// can backtrack catastrophically are refused: long ones, backreferences, quantified groups that
+// contain a quantifier themselves (star height above one, e.g. "(a+)+") and repeated groups that
+// contain an alternation, whose branches may overlap (e.g. "(a|aa)+").
+export const MAX_TAG_REGEX_LENGTH = 100;
+
+export function isSafeTagRegex(pattern: string): boolean {
+  if (pattern.length > MAX_TAG_REGEX_LENGTH) return false;
+  try {
+    new RegExp(pattern, "i");
+  } catch {
+    return false;
+  }
+
+  // What each open group contains, and what the last token was if it was a group
+  const groups: { quantifier: boolean; alternation: boolean }[] = [];
+  let closedGroup: { quantifier: boolean; alternation: boolean } | null = null;
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      if (!inClass && /[1-9k]/.test(pattern[i + 1] ?? "")) return false;
+      i++;
+      closedGroup = null;
+      continue;
+    }
+    if (inClass) {
+      if (char === "]") inClass = false;
+      continue;
+    }
+
+    const braces = char === "{" ? /^\{\d+(,\d*)?\}/.exec(pattern.slice(i)) : null;
+    if (char === "*" || char === "+" || char === "?" || braces) {
+      if (closedGroup?.quantifier) return false;
+      if (closedGroup?.alternation && char !== "?") return false;
+      if (groups.length > 0) groups[groups.length - 1].quantifier = true;
+      if (braces) i += braces[0].length - 1;
+      closedGroup = null;
+      continue;
+    }
+
+    closedGroup = null;
+    if (char === "[") {
+      inClass = true;
+    } else if (char === "|") {
+      if (groups.length > 0) groups[groups.length - 1].alternation = true;
+    } else if (char === "(") {
+      groups.push({ quantifier: false, alternation: false });
+      if (pattern[i + 1] === "?") i++; // (?: (?= (?<name> - not a quantifier
+    } else if (char === ")") {
+      const group = groups.pop() ?? { quantifier: false, alternation: false };
+      const parent = groups[groups.length - 1];
+      if (parent) {
+        parent.quantifier ||= group.quantifier;
+        parent.alternation ||= group.alternation;
+      }
+      closedGroup = group;
+    }
+  }
+  return true;
+}
+
+// Tag rules as edited in the admin UI and previewed before saving
+export const tagRuleSchema = z.object({
+  matchType: z.enum(TAG_MATCH_TYPES),
+  pattern: z.string().min(1).max(200),
+  tier: z.string().regex(/^[a-z0-9_]+$/).max(30),
+  priority: z.number().int().min(-1000).max(1000),
+}).refine(
+  rule => rule.matchType !== "regex" || isSafeTagRegex(rule.pattern),
+  { message: `Invalid regular expression: it must compile, be at most ${MAX_TAG_REGEX_LENGTH} characters and avoid nested quantifiers, repeated alternations and backreferences`, path: ["pattern"] }
+);
+export const tagRuleListSchema = z.array(tagRuleSchema).max(200);
+
+export const brandingConfigSchema = z.object({
+  companyName: z.string().max(100).optional(),
+  logo: z.string().url().optional().or(z.literal("")),
+  primaryColor: z.string().max(20).optional(),
+  secondaryColor: z.string().max(20).optional(),
+  customCss: z.string().max(10000).optional(),
+  favicon: z.string().url().optional().or(z.literal("")),
+  emailFromName: z.string().max(100).optional(),
+});
+
+// Integration keys a tenant owner can rotate; null clears a key, omitted keeps it
+export const tenantKeysSchema = z.object({
+  n8nWebhookUrl: z.string().url().nullable().optional(),
+  n8nApiKey: z.string().min(1).nullable().optional(),
+  stripeSecretKey: z.string().startsWith("sk_").nullable().optional(),
+  stripePublicKey: z.string().startsWith("pk_").nullable().optional(),
+  stripeWebhookSecret: z.string().startsWith("whsec_").nullable().optional(),
+  openaiApiKey: z.string().min(1).nullable().optional(),
+  highlevelWebhookSecret: z.string().min(16, "Use at least 16 characters").nullable().optional(),
+  n8nCallbackSecret: z.string().min(16, "Use at least 16 characters").nullable().optional(),
+  contentGenerator: z.enum(CONTENT_GENERATORS).optional(), // not a key, but chosen alongside the n8n setup
+});
+
+// A subscription tier in the plan catalog. Prices are in cents; a null credit price means
+// that credit type can't be bought as a top-up on this tier.
+export const planSchema = z.object({
+  tier: z.string().regex(/^[a-z0-9_]+$/, "Tier keys use lowercase letters, numbers and underscores").max(30),
+  name: z.string().min(1).max(50),
+  price: z.number().int().min(0),
+  generationsLimit: z.number().int().min(0),
+  scriptGenerationsLimit: z.number().int().min(0),
+  creditPrices: z.object({
+    content: z.number().int().positive().nullable(),
+    script: z.number().int().positive().nullable(),
+  }),
+  features: z.object({
+    checkout: z.boolean(), // can be subscribed to through Stripe Checkout
+    unlimited: z.boolean(), // shown as unlimited instead of a monthly count
+  }),
+  // Recurring Stripe price for the tier; needed for plan changes made in the Customer Portal
+  stripePriceId: z.string().regex(/^price_[A-Za-z0-9]+$/, "Stripe price IDs start with price_").optional(),
+});
+
+// Every catalog needs a free tier: it is where cancelled and untagged users land
+export const planCatalogSchema = z.array(planSchema).min(1)
+  .refine(plans => new Set(plans.map(plan => plan.tier)).size === plans.length, "Tier keys must be unique")
+  .refine(plans => plans.some(plan => plan.tier === "free"), "The catalog must include a free tier");
+
 export type InsertTenant = z.infer<typeof insertTenantSchema>;
+export type BrandingConfig = z.infer<typeof brandingConfigSchema>;
+export type TenantKeys = z.infer<typeof tenantKeysSchema>;
+export type Plan = z.infer<typeof planSchema>;
+export type PlanCatalog = z.infer<typeof planCatalogSchema>;
+
+export const credentialPolicySchema = z.object({
+  openaiPolicy: z.enum(CREDENTIAL_POLICIES).optional(),
+  stripePolicy: z.enum(CREDENTIAL_POLICIES).optional(),
+});
+
+// Credit top-ups bought through Stripe Checkout
+const purchaseCount = z.number().int().min(1).max(100).default(1);
+export const contentPurchaseSchema = z.object({ generationCount: purchaseCount });
+export const scriptPurchaseSchema = z.object({ scriptCount: purchaseCount });
 export type Tenant = typeof tenants.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -148,3 +514,15 @@ export type InsertContentRequest = z.infer<typeof insertContentRequestSchema>;
 export type ContentRequest = typeof contentRequests.$inferSelect;
 export type InsertGenerationPurchase = z.infer<typeof insertGenerationPurchaseSchema>;
 export type GenerationPurchase = typeof generationPurchases.$inferSelect;
+export type InsertStripeEvent = z.infer<typeof insertStripeEventSchema>;
+export type StripeEvent = typeof stripeEvents.$inferSelect;
+export type InsertCreditLedgerEntry = z.infer<typeof insertCreditLedgerSchema>;
+export type CreditLedgerEntry = typeof creditLedger.$inferSelect;
+export type TagRuleInput = z.infer<typeof tagRuleSchema>;
+export type TagRule = typeof tagRules.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type InsertGenerationJob = z.infer<typeof insertGenerationJobSchema>;
+export type ContentItem = typeof contentItems.$inferSelect;
+export type ContentItemInput = z.infer<typeof contentItemSchema>;